@@ -1,11 +1,77 @@
-import React, { useState } from 'react';
-import { Network, Sparkles, Activity, ShieldCheck, Download, FileJson, FileText } from 'lucide-react';
+import React, { useMemo, useRef, useState } from 'react';
+import { Network, Sparkles, Activity, ShieldCheck, Download, FileJson, FileText, Printer } from 'lucide-react';
 import AddressInput from './components/AddressInput';
 import GraphVisualization from './components/GraphVisualization';
-import { fetchTransactionHistory } from './services/solanaService';
-import { analyzeConnections } from './services/analysisService';
+import CachePanel from './components/CachePanel';
+import LabelPanel from './components/LabelPanel';
+import ScoringPanel from './components/ScoringPanel';
+import PairTable from './components/PairTable';
+import TimelinePanel from './components/TimelinePanel';
+import InvestigationPanel from './components/InvestigationPanel';
+import NodeInspector, { InputLink } from './components/NodeInspector';
+import GraphFilterPanel from './components/GraphFilterPanel';
+import { getChainAdapter } from './services/chainService';
+import { toHistoryOptions } from './services/historyService';
+import { AnalysisUpdate, forgetAnalysisData, runAnalysisJob } from './services/analysisClient';
+import { labelsForChain, loadLabelRegistry, saveLabelRegistry } from './services/labelService';
+import { DEFAULT_SCORING_PROFILE } from './services/scoringService';
+import { buildLedgerCsv, downloadFile } from './services/exportService';
+import { createInvestigationId, saveInvestigation } from './services/investigationService';
+import { buildCytoscapeJson, buildDot, buildGexf, buildGraphMl, buildNeo4jCsv } from './services/graphExportService';
+import { buildHtmlReport, reportFileName } from './services/reportService';
+import { fetchHistoryWithCache } from './services/cacheService';
+import { mergeExpansions, transactionsTouching } from './services/expansionService';
+import { DEFAULT_GRAPH_FILTER, filterGraph } from './services/graphFilterService';
+import { BEHAVIOR_FEATURE_MATCH, INTERMEDIARY_TX_LIMIT, clusterColor } from './constants';
 import { generateAiInsight } from './services/geminiService';
-import { GraphData, AnalysisSummary, ParsedTxInfo, AnalysisConfig, ConnectionType } from './types';
+import { GraphData, AnalysisSummary, AnalysisConfig, ChainId, WalletCoverage, FundingSource, LabelRegistry, ScoringProfile, TimeRange, FetchedHistories, GraphFilter, Investigation, Node, ParsedTxInfo } from './types';
+
+const formatDate = (blockTime: number | null) =>
+  blockTime ? new Date(blockTime * 1000).toISOString().slice(0, 10) : '—';
+
+// Analysis inputs that can change without refetching; unset ones fall back to the current state
+interface AnalysisOverrides {
+  registry?: LabelRegistry;
+  scoring?: ScoringProfile;
+  timeRange?: TimeRange | null;
+}
+
+// Histories from the last run, kept in memory so analysis-only setting changes never hit the RPC
+interface FetchedData extends FetchedHistories {
+  key: string;
+  chain: ChainId;
+  addresses: string[];
+}
+
+// The saved investigation currently open
+interface OpenCase {
+  id: string;
+  name: string;
+  notes: string;
+  createdAt: number;
+}
+
+// Inputs fetch their history with the analysis; programs and assets are too busy to expand usefully
+const EXPANDABLE_GROUPS: Node['group'][] = ['counterparty', 'middleman', 'change', 'funder'];
+
+type GraphFormat = 'gexf' | 'graphml' | 'cytoscape' | 'dot' | 'neo4j';
+
+const GRAPH_FORMATS: { value: GraphFormat; label: string }[] = [
+  { value: 'gexf', label: 'GEXF (Gephi)' },
+  { value: 'graphml', label: 'GraphML' },
+  { value: 'cytoscape', label: 'Cytoscape.js JSON' },
+  { value: 'dot', label: 'Graphviz DOT' },
+  { value: 'neo4j', label: 'Neo4j import CSV' },
+];
+
+const fetchKey = (chain: ChainId, addresses: string[], config: AnalysisConfig) =>
+  JSON.stringify({
+    chain,
+    addresses,
+    history: toHistoryOptions(config),
+    trace: config.traceIntermediaries ? [config.traceDepth, config.traceBudget] : null,
+    funding: !!config.analyzeFunding
+  });
 
 const App: React.FC = () => {
   const [graphData, setGraphData] = useState<GraphData | null>(null);
@@ -13,31 +79,117 @@ const App: React.FC = () => {
   const [aiInsight, setAiInsight] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [status, setStatus] = useState<string>("");
+  const [chain, setChain] = useState<ChainId>(ChainId.SOLANA);
+  const [cacheVersion, setCacheVersion] = useState(0);
+  const [labelRegistry, setLabelRegistry] = useState<LabelRegistry>(loadLabelRegistry);
+  const [scoringProfile, setScoringProfile] = useState<ScoringProfile>(DEFAULT_SCORING_PROFILE);
+  const [timeRange, setTimeRange] = useState<TimeRange | null>(null);
+  const [openCase, setOpenCase] = useState<OpenCase | null>(null);
+  const [formPreset, setFormPreset] = useState<{ addresses: string[]; config: AnalysisConfig } | null>(null);
+  const [selectedNode, setSelectedNode] = useState<string | null>(null);
+  // Histories of nodes expanded from the inspector; their neighbors are merged into the graph shown
+  const [expansions, setExpansions] = useState<{ [address: string]: ParsedTxInfo[] }>({});
+  const [expanding, setExpanding] = useState<string | null>(null);
+  const [graphFilter, setGraphFilter] = useState<GraphFilter>(DEFAULT_GRAPH_FILTER);
+  const [graphSearch, setGraphSearch] = useState("");
+  const lastFetch = useRef<FetchedData | null>(null);
+  const lastConfig = useRef<AnalysisConfig | null>(null);
+  const graphSnapshotRef = useRef<(() => string | null) | null>(null);
+  const adapter = getChainAdapter(chain);
+
+  const shownGraph = useMemo(() =>
+    graphData && Object.keys(expansions).length > 0
+      ? mergeExpansions(graphData, expansions, labelsForChain(labelRegistry, chain))
+      : graphData,
+    [graphData, expansions, labelRegistry, chain]
+  );
+  const visibleGraph = useMemo(() => shownGraph && filterGraph(shownGraph, graphFilter), [shownGraph, graphFilter]);
+
+  // Search hits among the visible nodes, by address or label
+  const searchMatches = useMemo(() => {
+    const query = graphSearch.trim().toLowerCase();
+    if (!query || !visibleGraph) return undefined;
+    return new Set(visibleGraph.nodes
+      .filter(n => n.id.toLowerCase().includes(query) || n.label.toLowerCase().includes(query))
+      .map(n => n.id));
+  }, [graphSearch, visibleGraph]);
+
+  // The inspected node with every transaction we hold for it and its ties to each input
+  const inspected = useMemo(() => {
+    const fetched = lastFetch.current;
+    const node = shownGraph?.nodes.find(n => n.id === selectedNode);
+    if (!node || !fetched || !shownGraph) return null;
+    const linkTo = (input: string) => shownGraph.links.find(l =>
+      (l.source === node.id && l.target === input) || (l.target === node.id && l.source === input));
+    const inputLinks: InputLink[] = fetched.addresses
+      .filter(input => input !== node.id)
+      .map(input => ({
+        input,
+        link: linkTo(input),
+        pair: summary?.connectedPairs.find(p =>
+          (p.addressA === node.id && p.addressB === input) || (p.addressB === node.id && p.addressA === input))
+      }))
+      .filter(l => l.link || l.pair)
+      .sort((a, b) => (b.pair?.score ?? 0) - (a.pair?.score ?? 0));
+    return {
+      node,
+      inputLinks,
+      transactions: transactionsTouching(node.id, [fetched.txData, fetched.intermediaries, expansions])
+    };
+  }, [selectedNode, shownGraph, summary, expansions]);
+
+  // Fetching and the heuristics run in the analysis worker; partial results stream back through onUpdate
+  const runAnalysis = (
+    target: { chain: ChainId; addresses: string[] },
+    config: AnalysisConfig,
+    overrides: AnalysisOverrides = {},
+    onUpdate?: (update: AnalysisUpdate) => void
+  ) => {
+    const { registry = labelRegistry, scoring = scoringProfile, timeRange: range = timeRange } = overrides;
+    lastConfig.current = config;
+    const key = fetchKey(target.chain, target.addresses, config);
+    return runAnalysisJob({
+      ...target,
+      config,
+      fetchKey: key,
+      fetched: lastFetch.current?.key === key ? lastFetch.current : undefined,
+      labels: labelsForChain(registry, target.chain),
+      scoring,
+      timeRange: range
+    }, onUpdate);
+  };
 
   const handleAnalyze = async (addresses: string[], config: AnalysisConfig) => {
     setIsLoading(true);
     setGraphData(null);
     setSummary(null);
     setAiInsight(null);
+    setTimeRange(null);
+    setSelectedNode(null);
+    setExpansions({});
+    setGraphFilter(f => ({ ...f, focusPair: null }));
 
     try {
-      const txData: { [addr: string]: ParsedTxInfo[] } = {};
-      
-      for (const addr of addresses) {
-        setStatus(`Fetching last ${config.maxTransactions} txs for ${addr.slice(0, 4)}...`);
-        const history = await fetchTransactionHistory(addr, config.maxTransactions);
-        txData[addr] = history;
+      const { result, fetched } = await runAnalysis({ chain, addresses }, config, { timeRange: null }, update => {
+        if (update.type === 'status') {
+          setStatus(update.message);
+        } else {
+          setGraphData(update.result.graph);
+          setSummary(update.result.summary);
+        }
+      });
+      if (fetched) {
+        lastFetch.current = { key: fetchKey(chain, addresses, config), chain, addresses, ...fetched };
+        setCacheVersion(v => v + 1);
       }
 
-      setStatus("Running heuristics & identifying clusters...");
-      const { graph, summary } = analyzeConnections(txData, config);
-      
-      setGraphData(graph);
+      const { summary } = result;
+      setGraphData(result.graph);
       setSummary(summary);
 
       if (process.env.API_KEY && summary.connectedPairs.length > 0) {
         setStatus("Generating AI insights...");
-        const insight = await generateAiInsight(summary, addresses);
+        const insight = await generateAiInsight(summary, addresses, adapter.name);
         setAiInsight(insight);
       } else if (!process.env.API_KEY) {
          setAiInsight("AI Insights unavailable: Missing API Key.");
@@ -54,31 +206,169 @@ const App: React.FC = () => {
     }
   };
 
+  // Re-runs the heuristics on already fetched data; the worker answers jobs in order, so the last one wins
+  const reanalyze = async (config: AnalysisConfig, overrides: AnalysisOverrides = {}) => {
+    const fetched = lastFetch.current!;
+    try {
+      const { result } = await runAnalysis(fetched, config, overrides);
+      setGraphData(result.graph);
+      setSummary(result.summary);
+    } catch (e) {
+      console.error(e);
+      alert("An error occurred during analysis.");
+    }
+  };
+
+  // Only analysis settings changed
+  const handleSettingsChange = (addresses: string[], config: AnalysisConfig) => {
+    const fetched = lastFetch.current;
+    if (isLoading || !fetched || fetched.key !== fetchKey(chain, addresses, config)) return;
+    const previous = lastConfig.current;
+    if (previous && previous.timeWindowSeconds === config.timeWindowSeconds && previous.includePrograms === config.includePrograms) return;
+    reanalyze(config);
+  };
+
+  // Labels, scoring and the time window only affect the heuristics, so the last results are re-scored in place
+  const rescore = (overrides: AnalysisOverrides) => {
+    if (isLoading || !lastFetch.current || !lastConfig.current || !summary) return;
+    reanalyze(lastConfig.current, overrides);
+  };
+
+  const handleLabelsChange = (registry: LabelRegistry) => {
+    setLabelRegistry(registry);
+    saveLabelRegistry(registry);
+    rescore({ registry });
+  };
+
+  const handleScoringChange = (profile: ScoringProfile) => {
+    setScoringProfile(profile);
+    rescore({ scoring: profile });
+  };
+
+  const handleTimeRangeChange = (range: TimeRange | null) => {
+    setTimeRange(range);
+    rescore({ timeRange: range });
+  };
+
+  const handleSaveInvestigation = async (name: string, notes: string) => {
+    const fetched = lastFetch.current;
+    const config = lastConfig.current;
+    if (!fetched || !config || !summary || !graphData) return;
+    const { key, chain: fetchedChain, addresses, ...histories } = fetched;
+    const now = Date.now();
+    const investigation: Investigation = {
+      id: openCase?.id ?? createInvestigationId(),
+      name,
+      chain: summary.chain ?? chain,
+      addresses,
+      createdAt: openCase?.createdAt ?? now,
+      updatedAt: now,
+      config,
+      fetched: histories,
+      timeRange,
+      graph: graphData,
+      summary,
+      aiInsight,
+      notes
+    };
+    await saveInvestigation(investigation);
+    setOpenCase({ id: investigation.id, name, notes, createdAt: investigation.createdAt });
+  };
+
+  // Restores the case exactly as saved; it is only re-analysed once labels, scoring or settings change
+  const handleLoadInvestigation = (investigation: Investigation) => {
+    const { id, name, notes, createdAt, chain: caseChain, addresses, config, fetched } = investigation;
+    setChain(caseChain);
+    lastFetch.current = { key: fetchKey(caseChain, addresses, config), chain: caseChain, addresses, ...fetched };
+    forgetAnalysisData();
+    lastConfig.current = config;
+    setFormPreset({ addresses, config });
+    setGraphData(investigation.graph);
+    setSummary(investigation.summary);
+    setAiInsight(investigation.aiInsight);
+    setTimeRange(investigation.timeRange);
+    setOpenCase({ id, name, notes, createdAt });
+    setSelectedNode(null);
+    setExpansions({});
+    setGraphFilter(f => ({ ...f, focusPair: null }));
+  };
+
+  // Fetches a node's own history (unless tracing already did) and merges its neighbors into the graph
+  const handleExpandNode = async (address: string) => {
+    const fetched = lastFetch.current;
+    const config = lastConfig.current;
+    if (!fetched || !config) return;
+    setExpanding(address);
+    try {
+      const transactions = fetched.intermediaries[address] ?? (await fetchHistoryWithCache(getChainAdapter(fetched.chain), address, {
+        limit: INTERMEDIARY_TX_LIMIT,
+        fromTime: config.fromTime,
+        toTime: config.toTime,
+      })).transactions;
+      setExpansions(prev => ({ ...prev, [address]: transactions }));
+      setCacheVersion(v => v + 1);
+    } catch (e) {
+      console.error(e);
+      alert("Could not fetch this wallet's history.");
+    } finally {
+      setExpanding(null);
+    }
+  };
+
+  const handleCachePurged = () => {
+    lastFetch.current = null;
+    forgetAnalysisData();
+  };
+
+  // Both exports carry every pair's full evidence ledger
   const downloadJSON = () => {
     if (!summary) return;
-    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(summary, null, 2));
-    const downloadAnchorNode = document.createElement('a');
-    downloadAnchorNode.setAttribute("href", dataStr);
-    downloadAnchorNode.setAttribute("download", "nexus_analysis.json");
-    document.body.appendChild(downloadAnchorNode);
-    downloadAnchorNode.click();
-    downloadAnchorNode.remove();
+    downloadFile("nexus_analysis.json", JSON.stringify(summary, null, 2), "application/json");
   };
 
   const downloadCSV = () => {
     if (!summary) return;
-    const headers = ["Address A", "Address B", "Type", "Reason", "Score"];
-    const rows = summary.connectedPairs.map(p => 
-      `${p.addressA},${p.addressB},${p.type},"${p.reason.replace(/"/g, '""')}",${p.score}`
-    );
-    const csvContent = "data:text/csv;charset=utf-8," + [headers.join(','), ...rows].join('\n');
-    const encodedUri = encodeURI(csvContent);
-    const link = document.createElement("a");
-    link.setAttribute("href", encodedUri);
-    link.setAttribute("download", "nexus_analysis.csv");
-    document.body.appendChild(link);
-    link.click();
-    link.remove();
+    downloadFile("nexus_analysis.csv", buildLedgerCsv(summary), "text/csv");
+  };
+
+  // The graph as shown (expansions and view filters applied), with node groups, link types and each input pair's evidence as attributes
+  const downloadGraph = (format: GraphFormat) => {
+    if (!visibleGraph) return;
+    switch (format) {
+      case 'gexf':
+        return downloadFile("nexus_graph.gexf", buildGexf(visibleGraph, summary), "application/xml");
+      case 'graphml':
+        return downloadFile("nexus_graph.graphml", buildGraphMl(visibleGraph, summary), "application/xml");
+      case 'cytoscape':
+        return downloadFile("nexus_graph.cyjs", buildCytoscapeJson(visibleGraph, summary), "application/json");
+      case 'dot':
+        return downloadFile("nexus_graph.dot", buildDot(visibleGraph, summary), "text/vnd.graphviz");
+      case 'neo4j': {
+        const { nodes, relationships } = buildNeo4jCsv(visibleGraph, summary);
+        downloadFile("nexus_nodes.csv", nodes, "text/csv");
+        downloadFile("nexus_relationships.csv", relationships, "text/csv");
+      }
+    }
+  };
+
+  // Standalone HTML for readers without the app; print styles make it PDF-ready
+  const downloadReport = () => {
+    const fetched = lastFetch.current;
+    const config = lastConfig.current;
+    if (!summary || !fetched || !config) return;
+    const title = openCase?.name || 'Investigation report';
+    const report = buildHtmlReport({
+      title,
+      adapter: getChainAdapter(summary.chain ?? chain),
+      addresses: fetched.addresses,
+      config,
+      summary,
+      timeRange,
+      graphMarkup: graphSnapshotRef.current?.() ?? null,
+      aiInsight,
+      notes: openCase?.notes,
+    });
+    downloadFile(reportFileName(title), report, "text/html");
   };
 
   return (
@@ -97,7 +387,7 @@ const App: React.FC = () => {
           <div className="flex items-center gap-4 text-sm text-slate-400">
             <span className="flex items-center gap-1.5 px-3 py-1 rounded-full bg-slate-900 border border-slate-700">
               <div className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></div>
-              Solana Mainnet
+              {adapter.name}
             </span>
           </div>
         </div>
@@ -108,7 +398,24 @@ const App: React.FC = () => {
           
           {/* Left Column: Input & Summary */}
           <div className="lg:col-span-4 space-y-6">
-            <AddressInput onAnalyze={handleAnalyze} isLoading={isLoading} />
+            <AddressInput
+              onAnalyze={handleAnalyze}
+              onSettingsChange={handleSettingsChange}
+              isLoading={isLoading}
+              chain={chain}
+              onChainChange={setChain}
+              preset={formPreset}
+            />
+            <InvestigationPanel
+              current={openCase}
+              canSave={!!summary && !isLoading}
+              onSave={handleSaveInvestigation}
+              onLoad={handleLoadInvestigation}
+              onNew={() => setOpenCase(null)}
+            />
+            <CachePanel refreshKey={cacheVersion} onPurged={handleCachePurged} />
+            <LabelPanel registry={labelRegistry} onChange={handleLabelsChange} />
+            <ScoringPanel profile={scoringProfile} onChange={handleScoringChange} />
             
             {isLoading && (
               <div className="p-4 bg-slate-900/50 rounded-xl border border-slate-800 flex items-center justify-center text-slate-400 animate-pulse">
@@ -130,6 +437,19 @@ const App: React.FC = () => {
                     <button onClick={downloadCSV} className="p-1.5 hover:bg-slate-700 rounded text-slate-400 hover:text-white" title="Export CSV">
                        <FileText className="w-4 h-4" />
                     </button>
+                    <button onClick={downloadReport} className="p-1.5 hover:bg-slate-700 rounded text-slate-400 hover:text-white" title="Download report (HTML, printable to PDF)">
+                       <Printer className="w-4 h-4" />
+                    </button>
+                    <select
+                      value=""
+                      onChange={(e) => downloadGraph(e.target.value as GraphFormat)}
+                      disabled={!graphData}
+                      className="bg-transparent border border-slate-700 rounded px-1 text-xs text-slate-400 hover:text-white outline-none"
+                      title="Export graph"
+                    >
+                      <option value="" disabled>Graph…</option>
+                      {GRAPH_FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                    </select>
                   </div>
                 </div>
                 <div className="p-4 space-y-4 text-sm">
@@ -161,29 +481,187 @@ const App: React.FC = () => {
                   </div>
 
                   <div>
-                    <h4 className="text-slate-400 text-xs uppercase tracking-wider font-semibold mb-3">Strongest Links</h4>
-                    {summary.connectedPairs.length === 0 ? (
-                      <div className="text-slate-500 italic text-center py-2">No direct links detected yet.</div>
-                    ) : (
-                      <div className="space-y-2 max-h-[300px] overflow-y-auto pr-1">
-                        {summary.connectedPairs.map((pair, i) => (
-                          <div key={i} className="p-3 bg-slate-900/50 rounded-lg border border-slate-800/50 hover:border-slate-700 transition-colors">
-                            <div className="flex justify-between items-start mb-1">
-                              <span className="text-xs font-mono text-blue-300 bg-blue-900/30 px-1.5 py-0.5 rounded">
-                                {pair.addressA.slice(0,4)}...
+                    <h4 className="text-slate-400 text-xs uppercase tracking-wider font-semibold mb-2">Coverage Window</h4>
+                    <div className="space-y-1 max-h-[160px] overflow-y-auto pr-1">
+                      {Object.entries(summary.coverage).map(([addr, cov]: [string, WalletCoverage]) => (
+                        <div key={addr} className="flex justify-between items-center text-xs bg-slate-900/50 px-2 py-1 rounded">
+                          <span className="font-mono text-blue-300">{addr.slice(0,4)}...</span>
+                          <span className="text-slate-400">
+                            {cov.fetched} txs · {formatDate(cov.oldestBlockTime)} &rarr; {formatDate(cov.newestBlockTime)}
+                          </span>
+                          <span className={cov.complete ? 'text-emerald-400' : 'text-amber-400'} title={cov.complete ? 'Requested range fully fetched' : cov.missing ? `${cov.missing} transactions failed to load` : 'Cut off by the transaction or block-scan cap'}>
+                            {cov.complete ? 'full' : 'partial'}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {Object.keys(summary.fundingSources).length > 0 && (
+                    <div>
+                      <h4 className="text-slate-400 text-xs uppercase tracking-wider font-semibold mb-2">Funding Sources</h4>
+                      <div className="space-y-1 max-h-[160px] overflow-y-auto pr-1">
+                        {Object.entries(summary.fundingSources).map(([addr, source]: [string, FundingSource]) => (
+                          <div key={addr} className="flex justify-between items-center text-xs bg-slate-900/50 px-2 py-1 rounded" title={source.signature}>
+                            <span className="font-mono text-blue-300">{addr.slice(0,4)}...</span>
+                            <span className="text-slate-500">funded by</span>
+                            <span className="font-mono text-purple-300">{source.funder.slice(0,4)}...</span>
+                            <span className={source.isFirstDeposit ? 'text-emerald-400' : 'text-amber-400'}>
+                              {source.isFirstDeposit ? 'first' : 'earliest seen'}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {(summary.coSignedTxs.length > 0 || summary.feeSponsors.length > 0) && (
+                    <div>
+                      <h4 className="text-slate-400 text-xs uppercase tracking-wider font-semibold mb-2">Co-Signing &amp; Fee Sponsorship</h4>
+                      <div className="space-y-1 max-h-[160px] overflow-y-auto pr-1">
+                        {summary.coSignedTxs.map(tx => (
+                          <div key={tx.signature} className="flex justify-between items-center text-xs bg-rose-900/20 border border-rose-500/30 px-2 py-1 rounded" title={tx.signature}>
+                            <span className="font-mono text-blue-300">{tx.inputs.map(a => `${a.slice(0, 4)}..`).join(', ')}</span>
+                            <span className="text-slate-400">{tx.inputs.includes(tx.feePayer) ? `fees paid by ${tx.feePayer.slice(0, 4)}..` : 'co-signed'}</span>
+                            <span className="text-slate-500">{formatDate(tx.blockTime)}</span>
+                          </div>
+                        ))}
+                        {summary.feeSponsors.map(s => (
+                          <div key={s.sponsor} className="flex justify-between items-center text-xs bg-slate-900/50 px-2 py-1 rounded" title={s.sponsor}>
+                            <span className="font-mono text-purple-300">{s.sponsor.slice(0, 4)}...</span>
+                            <span className="text-slate-500">paid fees for</span>
+                            <span className="font-mono text-blue-300">{s.inputs.map(a => `${a.slice(0, 4)}..`).join(', ')}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {summary.entityClusters.length > 0 && (
+                    <div>
+                      <h4 className="text-slate-400 text-xs uppercase tracking-wider font-semibold mb-2">Probable Entities</h4>
+                      <div className="space-y-1 max-h-[200px] overflow-y-auto pr-1">
+                        {summary.entityClusters.map(cluster => (
+                          <div key={cluster.id} className="text-xs bg-slate-900/50 px-2 py-1 rounded">
+                            <div className="flex justify-between items-center">
+                              <span className="flex items-center gap-1.5 text-slate-200">
+                                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: clusterColor(cluster.id) }}></span>
+                                Entity #{cluster.id} · {cluster.members.length} of {Object.keys(summary.coverage).length} wallets
                               </span>
-                              <div className="flex flex-col items-center px-1">
-                                <span className="text-[10px] text-slate-600 font-bold tracking-widest">{pair.type.replace('_', ' ')}</span>
-                                <span className="text-xs text-slate-500">&harr;</span>
-                              </div>
-                              <span className="text-xs font-mono text-blue-300 bg-blue-900/30 px-1.5 py-0.5 rounded">
-                                {pair.addressB.slice(0,4)}...
+                              <span
+                                className="font-mono text-slate-400"
+                                title={`Weakest tie: ${cluster.weakestLink.addressA.slice(0, 4)}.. ↔ ${cluster.weakestLink.addressB.slice(0, 4)}.. (${cluster.weakestLink.score})`}
+                              >
+                                {cluster.confidence}%
                               </span>
                             </div>
-                            <p className="text-slate-400 text-xs mt-1">{pair.reason}</p>
+                            <div className="font-mono text-blue-300 mt-0.5">{cluster.members.map(a => `${a.slice(0, 4)}..`).join(', ')}</div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {summary.flaggedEntities.length > 0 && (
+                    <div>
+                      <h4 className="text-slate-400 text-xs uppercase tracking-wider font-semibold mb-2">Flagged Entities</h4>
+                      <div className="space-y-1">
+                        {summary.flaggedEntities.map(flagged => (
+                          <div key={flagged.label.address} className="flex justify-between items-center text-xs bg-red-900/20 border border-red-500/30 px-2 py-1 rounded" title={flagged.label.address}>
+                            <span className="text-red-300">{flagged.label.name}</span>
+                            <span className="text-slate-400 lowercase">{flagged.label.category}</span>
+                            <span className="font-mono text-blue-300">{flagged.inputs.map(a => `${a.slice(0, 4)}..`).join(', ')}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {summary.sharedAssets.length > 0 && (
+                    <div>
+                      <h4 className="text-slate-400 text-xs uppercase tracking-wider font-semibold mb-2">Shared Assets</h4>
+                      <div className="space-y-1 max-h-[160px] overflow-y-auto pr-1">
+                        {summary.sharedAssets.map(shared => (
+                          <div key={shared.asset} className="flex justify-between items-center text-xs bg-slate-900/50 px-2 py-1 rounded" title={shared.asset}>
+                            <span className="font-mono text-lime-300">{shared.asset.slice(0,4)}...</span>
+                            <span className="text-slate-400">{shared.kind} · {shared.inputs.length} inputs</span>
+                            <span className="text-slate-500" title="Share of all wallets seen with this asset that are inputs">
+                              {Math.round(shared.rarity * 100)}% rare
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {summary.temporalCorrelations.length > 0 && (
+                    <div>
+                      <h4 className="text-slate-400 text-xs uppercase tracking-wider font-semibold mb-2">Activity Patterns</h4>
+                      <div className="space-y-1 max-h-[160px] overflow-y-auto pr-1">
+                        {summary.temporalCorrelations.map(c => (
+                          <div key={`${c.addressA}-${c.addressB}`} className="flex justify-between items-center text-xs bg-slate-900/50 px-2 py-1 rounded">
+                            <span className="font-mono text-blue-300">{c.addressA.slice(0, 4)}.. ↔ {c.addressB.slice(0, 4)}..</span>
+                            <span className="text-slate-400" title="Cosine similarity of UTC hour-of-day / day-of-week activity">
+                              {Math.round(c.hourSimilarity * 100)}% hours · {Math.round(c.daySimilarity * 100)}% days
+                            </span>
+                            <span className="text-indigo-300" title="Times both woke from dormancy within a day of each other">
+                              {c.sharedActivations.length} wake-ups
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {summary.behaviorSimilarities.length > 0 && (
+                    <div>
+                      <h4 className="text-slate-400 text-xs uppercase tracking-wider font-semibold mb-2">Behavioral Fingerprints</h4>
+                      <div className="space-y-1 max-h-[160px] overflow-y-auto pr-1">
+                        {summary.behaviorSimilarities.map(s => (
+                          <div key={`${s.addressA}-${s.addressB}`} className="text-xs bg-slate-900/50 px-2 py-1 rounded">
+                            <div className="flex justify-between items-center">
+                              <span className="font-mono text-blue-300">{s.addressA.slice(0, 4)}.. ↔ {s.addressB.slice(0, 4)}..</span>
+                              <span className="text-teal-300">{Math.round(s.strength * 100)}% alike</span>
+                            </div>
+                            <div className="flex flex-wrap gap-x-2 text-[10px] text-slate-500 mt-0.5">
+                              {s.matches.map(m => (
+                                <span key={m.feature} className={m.similarity >= BEHAVIOR_FEATURE_MATCH ? 'text-teal-400' : ''} title={m.shared}>
+                                  {m.feature.replace(/([A-Z])/g, ' $1').toLowerCase()} {Math.round(m.similarity * 100)}%
+                                </span>
+                              ))}
+                            </div>
                           </div>
                         ))}
                       </div>
+                    </div>
+                  )}
+
+                  {summary.flowPaths.length > 0 && (
+                    <div>
+                      <h4 className="text-slate-400 text-xs uppercase tracking-wider font-semibold mb-2">Traced Flows</h4>
+                      <div className="space-y-2 max-h-[200px] overflow-y-auto pr-1">
+                        {summary.flowPaths.map((path, i) => (
+                          <div key={i} className="p-2 bg-slate-900/50 rounded-lg border border-orange-500/20 text-xs">
+                            <div className="font-mono text-orange-300">
+                              {[path.source, ...path.hops.map(h => h.to)].map(a => `${a.slice(0, 4)}..`).join(' → ')}
+                            </div>
+                            {path.hops.map((hop, j) => (
+                              <div key={j} className="text-slate-500 font-mono mt-0.5" title={hop.signature}>
+                                hop {j + 1}: {hop.signature.slice(0, 12)}... · {formatDate(hop.blockTime)}
+                              </div>
+                            ))}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <div>
+                    <h4 className="text-slate-400 text-xs uppercase tracking-wider font-semibold mb-3">Linked Pairs ({summary.connectedPairs.length})</h4>
+                    {summary.connectedPairs.length === 0 ? (
+                      <div className="text-slate-500 italic text-center py-2">No direct links detected yet.</div>
+                    ) : (
+                      <PairTable pairs={summary.connectedPairs} explorerTxUrl={getChainAdapter(summary.chain ?? chain).explorerTxUrl} />
                     )}
                   </div>
                 </div>
@@ -212,16 +690,54 @@ const App: React.FC = () => {
           {/* Right Column: Visualization */}
           <div className="lg:col-span-8">
             <div className="h-full min-h-[600px] flex flex-col">
+              {shownGraph && visibleGraph && lastFetch.current && (
+                <div className="mb-4">
+                  <GraphFilterPanel
+                    graph={shownGraph}
+                    inputs={lastFetch.current.addresses}
+                    filter={graphFilter}
+                    onChange={setGraphFilter}
+                    search={graphSearch}
+                    onSearchChange={setGraphSearch}
+                    onSearchSubmit={() => { const [first] = searchMatches ?? []; if (first) setSelectedNode(first); }}
+                    matchCount={searchMatches?.size ?? 0}
+                    shownNodes={visibleGraph.nodes.length}
+                  />
+                </div>
+              )}
               <div className="flex-1 rounded-xl overflow-hidden shadow-2xl border border-slate-700 bg-black/20 relative">
-                 {graphData ? (
-                   <GraphVisualization data={graphData} />
+                 {visibleGraph ? (
+                   <GraphVisualization
+                     data={visibleGraph}
+                     snapshotRef={graphSnapshotRef}
+                     selectedId={inspected ? selectedNode : null}
+                     matchedIds={searchMatches}
+                     onNodeClick={id => setSelectedNode(id === selectedNode ? null : id)}
+                   />
                  ) : (
                    <div className="w-full h-full flex flex-col items-center justify-center text-slate-500 space-y-4">
                      <ShieldCheck className="w-16 h-16 opacity-20" />
                      <p>Enter wallet addresses to visualize connections</p>
                    </div>
                  )}
+                 {inspected && lastFetch.current && (
+                   <NodeInspector
+                     key={inspected.node.id}
+                     node={inspected.node}
+                     transactions={inspected.transactions}
+                     inputLinks={inspected.inputLinks}
+                     adapter={getChainAdapter(lastFetch.current.chain)}
+                     onExpand={EXPANDABLE_GROUPS.includes(inspected.node.group) ? () => handleExpandNode(inspected.node.id) : undefined}
+                     expandState={expansions[inspected.node.id] ? 'done' : expanding === inspected.node.id ? 'loading' : 'idle'}
+                     onClose={() => setSelectedNode(null)}
+                   />
+                 )}
               </div>
+              {graphData && lastFetch.current && (
+                <div className="mt-4">
+                  <TimelinePanel histories={lastFetch.current.txData} range={timeRange} onRangeChange={handleTimeRangeChange} />
+                </div>
+              )}
             </div>
           </div>
 
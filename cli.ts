@@ -0,0 +1,189 @@
+/**
+ * Headless analyzer: the app's fetching, heuristics and (optionally) AI insight for scripts and
+ * batch jobs. Build with `npm run build:node`, then `node dist/node/nexus.js --help`.
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { AnalysisConfig, ChainId } from './types';
+import { DEFAULT_ANALYSIS_CONFIG } from './constants';
+import { createChainAdapter } from './services/chainService';
+import { parseAddressList } from './services/addressListService';
+import { analyzeFetched, fetchInvestigationData } from './services/pipelineService';
+import { DEFAULT_TRACE_BUDGET, DEFAULT_TRACE_DEPTH } from './services/tracingService';
+import { buildLedgerCsv } from './services/exportService';
+import { labelsForChain, loadLabelRegistry } from './services/labelService';
+import { buildEdgeListCsv } from './services/graphExportService';
+import { generateAiInsight } from './services/geminiService';
+
+// 0: done (and --min-confidence met); 1: confidence below --min-confidence
+const EXIT_USAGE = 2;
+const EXIT_FAILED = 3;
+
+const USAGE = `Usage: nexus [options] <address...>
+
+Finds links between wallets and prints the analysis as JSON (or the evidence ledger as CSV).
+
+Input
+  -c, --chain <chain>        solana (default), ethereum, base or bitcoin
+  -f, --file <path>          Addresses from a TXT / CSV file, one per line ("-" reads stdin)
+      --rpc <url>            RPC endpoint to use instead of the defaults (repeatable, tried in order;
+                             Esplora API base URL for bitcoin)
+
+Analysis
+      --max-tx <n>           Transactions per wallet (default ${DEFAULT_ANALYSIS_CONFIG.maxTransactions})
+      --full-history         Crawl each wallet's whole history (capped)
+      --from <date>          Ignore transactions before this UTC day (yyyy-mm-dd) or unix time
+      --to <date>            Ignore transactions after this UTC day (yyyy-mm-dd) or unix time
+      --time-window <s>      Time-proximity window in seconds (default ${DEFAULT_ANALYSIS_CONFIG.timeWindowSeconds})
+      --no-programs          Don't count shared programs / contracts as evidence
+      --trace                Fetch intermediary histories to confirm multi-hop flows
+      --trace-depth <n>      Intermediaries between two inputs (default ${DEFAULT_TRACE_DEPTH})
+      --trace-budget <n>     Intermediary histories fetched at most (default ${DEFAULT_TRACE_BUDGET})
+      --no-funding           Skip funding-source lookups
+      --ai                   Add an AI insight (needs GEMINI_API_KEY)
+
+Output
+      --format <json|csv>    What goes to stdout: the full result (json, default) or the evidence ledger (csv)
+      --summary <path>       Write the summary to a file instead (.csv: evidence ledger, otherwise JSON)
+      --graph <path>         Also write the graph (.csv: edge list, otherwise JSON)
+      --min-confidence <n>   Exit with 1 when the overall confidence (0-100) is below n
+  -q, --quiet                No progress messages on stderr
+  -h, --help                 Show this help
+
+Exit codes: 0 done, 1 below --min-confidence, ${EXIT_USAGE} bad arguments or addresses, ${EXIT_FAILED} analysis failed.`;
+
+class UsageError extends Error {}
+
+const CHAINS: Record<string, ChainId> = {
+  solana: ChainId.SOLANA,
+  ethereum: ChainId.ETHEREUM,
+  base: ChainId.BASE,
+  bitcoin: ChainId.BITCOIN,
+};
+
+const toNumber = (flag: string, value: string | undefined, min = 0): number | undefined => {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < min) throw new UsageError(`--${flag} must be a number >= ${min}, got "${value}"`);
+  return n;
+};
+
+// Whole UTC days like the form ("from" at 00:00:00, "to" at 23:59:59), or unix seconds as given
+const toTime = (flag: string, value: string | undefined, endOfDay: boolean): number | undefined => {
+  if (value === undefined) return undefined;
+  if (/^\d+$/.test(value)) return Number(value);
+  const ms = Date.parse(`${value}T${endOfDay ? '23:59:59' : '00:00:00'}Z`);
+  if (Number.isNaN(ms)) throw new UsageError(`--${flag} must be yyyy-mm-dd or unix seconds, got "${value}"`);
+  return ms / 1000;
+};
+
+const readInput = (path: string) => {
+  try {
+    return readFileSync(path === '-' ? 0 : path, 'utf8');
+  } catch (error) {
+    throw new UsageError(`Cannot read ${path}: ${(error as Error).message}`);
+  }
+};
+
+const main = async (): Promise<number> => {
+  const { values: flags, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      chain: { type: 'string', short: 'c', default: 'solana' },
+      file: { type: 'string', short: 'f' },
+      rpc: { type: 'string', multiple: true },
+      'max-tx': { type: 'string' },
+      'full-history': { type: 'boolean', default: false },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      'time-window': { type: 'string' },
+      'no-programs': { type: 'boolean', default: false },
+      trace: { type: 'boolean', default: false },
+      'trace-depth': { type: 'string' },
+      'trace-budget': { type: 'string' },
+      'no-funding': { type: 'boolean', default: false },
+      ai: { type: 'boolean', default: false },
+      format: { type: 'string', default: 'json' },
+      summary: { type: 'string' },
+      graph: { type: 'string' },
+      'min-confidence': { type: 'string' },
+      quiet: { type: 'boolean', short: 'q', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (flags.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const chain = CHAINS[flags.chain.toLowerCase()];
+  if (!chain) throw new UsageError(`Unknown chain "${flags.chain}"; use one of ${Object.keys(CHAINS).join(', ')}`);
+  if (flags.format !== 'json' && flags.format !== 'csv') throw new UsageError(`--format must be json or csv, got "${flags.format}"`);
+  const minConfidence = toNumber('min-confidence', flags['min-confidence']);
+  const adapter = createChainAdapter(chain, flags.rpc?.length ? flags.rpc : undefined);
+  const log = (message: string) => { if (!flags.quiet) console.error(message); };
+
+  // Arguments and file go through the same parser as the app's bulk input
+  const listText = [...positionals, flags.file !== undefined ? readInput(flags.file) : ''].join('\n');
+  const { addresses, errors } = parseAddressList(listText, adapter);
+  if (errors.length > 0) {
+    throw new UsageError(errors.map(e => `line ${e.line}: ${e.value}: ${e.message}`).join('\n'));
+  }
+  if (addresses.length < 2) throw new UsageError('At least two addresses are needed; see --help');
+
+  const config: AnalysisConfig = {
+    ...DEFAULT_ANALYSIS_CONFIG,
+    maxTransactions: toNumber('max-tx', flags['max-tx'], 1) ?? DEFAULT_ANALYSIS_CONFIG.maxTransactions,
+    timeWindowSeconds: toNumber('time-window', flags['time-window']) ?? DEFAULT_ANALYSIS_CONFIG.timeWindowSeconds,
+    includePrograms: !flags['no-programs'],
+    fromTime: toTime('from', flags.from, false),
+    toTime: toTime('to', flags.to, true),
+    fullHistory: flags['full-history'],
+    traceIntermediaries: flags.trace,
+    traceDepth: toNumber('trace-depth', flags['trace-depth'], 1) ?? DEFAULT_TRACE_DEPTH,
+    traceBudget: toNumber('trace-budget', flags['trace-budget'], 1) ?? DEFAULT_TRACE_BUDGET,
+    analyzeFunding: !flags['no-funding'],
+  };
+
+  log(`Analyzing ${addresses.length} ${adapter.name} wallets...`);
+  const fetched = await fetchInvestigationData(adapter, addresses, config, { onStatus: log });
+  log("Running heuristics & identifying clusters...");
+  const { graph, summary } = analyzeFetched(fetched, config, { labels: labelsForChain(loadLabelRegistry(), chain) }); // Built-in labels
+
+  let aiInsight: string | undefined;
+  if (flags.ai) {
+    if (!process.env.API_KEY) process.env.API_KEY = process.env.GEMINI_API_KEY;
+    log("Generating AI insights...");
+    aiInsight = await generateAiInsight(summary, addresses, adapter.name);
+  }
+
+  const result = JSON.stringify({ chain, addresses, config, generatedAt: new Date().toISOString(), summary, graph, aiInsight }, null, 2);
+  const summaryOutput = (csv: boolean) => csv ? buildLedgerCsv(summary) : result;
+  if (flags.summary) {
+    writeFileSync(flags.summary, summaryOutput(flags.summary.endsWith('.csv')) + '\n');
+    log(`Summary written to ${flags.summary}`);
+  } else {
+    process.stdout.write(summaryOutput(flags.format === 'csv') + '\n');
+  }
+  if (flags.graph) {
+    writeFileSync(flags.graph, (flags.graph.endsWith('.csv') ? buildEdgeListCsv(graph, summary) : JSON.stringify(graph, null, 2)) + '\n');
+    log(`Graph written to ${flags.graph}`);
+  }
+
+  log(`Confidence ${summary.confidenceScore}/100 across ${summary.connectedPairs.length} linked pairs`);
+  return minConfidence !== undefined && summary.confidenceScore < minConfidence ? 1 : 0;
+};
+
+main().then(
+  code => { process.exitCode = code; },
+  error => {
+    if (error instanceof UsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      process.exitCode = EXIT_USAGE;
+    } else {
+      console.error(error);
+      process.exitCode = EXIT_FAILED;
+    }
+  }
+);
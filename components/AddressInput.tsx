@@ -1,22 +1,90 @@
-import React, { useState } from 'react';
-import { Plus, Trash2, Search, AlertCircle, Settings, ChevronDown, ChevronUp } from 'lucide-react';
-import { validateAddress } from '../services/solanaService';
-import { AnalysisConfig } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Plus, Trash2, Search, AlertCircle, Settings, ChevronDown, ChevronUp, Upload } from 'lucide-react';
+import { CHAIN_ADAPTERS, getChainAdapter } from '../services/chainService';
+import { AnalysisConfig, ChainId } from '../types';
+import { FULL_HISTORY_MAX_TX, MAX_ADDRESS_FIELDS, MAX_INPUT_ADDRESSES } from '../constants';
+import { DEFAULT_TRACE_BUDGET, DEFAULT_TRACE_DEPTH } from '../services/tracingService';
+import { parseAddressList } from '../services/addressListService';
+
+// Per-line errors listed under the bulk box; the count covers the rest
+const MAX_LISTED_ERRORS = 50;
 
 interface Props {
   onAnalyze: (addresses: string[], config: AnalysisConfig) => void;
+  onSettingsChange?: (addresses: string[], config: AnalysisConfig) => void; // Analysis-only settings (no refetch needed)
   isLoading: boolean;
+  chain: ChainId;
+  onChainChange: (chain: ChainId) => void;
+  preset?: { addresses: string[]; config: AnalysisConfig } | null; // Fills the form, e.g. when a saved investigation is opened
 }
 
-const AddressInput: React.FC<Props> = ({ onAnalyze, isLoading }) => {
+const AddressInput: React.FC<Props> = ({ onAnalyze, onSettingsChange, isLoading, chain, onChainChange, preset }) => {
+  const adapter = getChainAdapter(chain);
   const [addresses, setAddresses] = useState<string[]>(['', '']);
   const [error, setError] = useState<string | null>(null);
   const [showSettings, setShowSettings] = useState(false);
+  // Bulk mode: a pasted or uploaded list instead of one field per wallet
+  const [bulk, setBulk] = useState(false);
+  const [bulkText, setBulkText] = useState('');
+  const fileRef = useRef<HTMLInputElement>(null);
+  const parsedList = useMemo(() => parseAddressList(bulkText, adapter), [bulkText, chain]);
   
   // Settings State
   const [limit, setLimit] = useState(50);
   const [timeWindow, setTimeWindow] = useState(300); // seconds
   const [includePrograms, setIncludePrograms] = useState(true);
+  const [fromDate, setFromDate] = useState(''); // yyyy-mm-dd, UTC
+  const [toDate, setToDate] = useState('');
+  const [fullHistory, setFullHistory] = useState(false);
+  const [traceIntermediaries, setTraceIntermediaries] = useState(false);
+  const [traceDepth, setTraceDepth] = useState(DEFAULT_TRACE_DEPTH);
+  const [traceBudget, setTraceBudget] = useState(DEFAULT_TRACE_BUDGET);
+  const [analyzeFunding, setAnalyzeFunding] = useState(true);
+
+  const cleanFields = () => addresses.map(a => a.trim()).filter(a => a !== '');
+  const cleanAddresses = () => bulk ? parsedList.addresses : cleanFields();
+
+  // Date inputs are whole UTC days: "from" starts at 00:00:00, "to" ends at 23:59:59
+  const buildConfig = (): AnalysisConfig => ({
+    maxTransactions: limit,
+    timeWindowSeconds: timeWindow,
+    includePrograms,
+    fromTime: fromDate ? Date.parse(`${fromDate}T00:00:00Z`) / 1000 : undefined,
+    toTime: toDate ? Date.parse(`${toDate}T23:59:59Z`) / 1000 : undefined,
+    fullHistory,
+    traceIntermediaries,
+    traceDepth,
+    traceBudget,
+    analyzeFunding
+  });
+
+  useEffect(() => {
+    if (!preset) return;
+    const { addresses: presetAddresses, config } = preset;
+    if (presetAddresses.length > MAX_ADDRESS_FIELDS) {
+      setBulk(true);
+      setBulkText(presetAddresses.join('\n'));
+    } else {
+      setBulk(false);
+      setAddresses(presetAddresses.length >= 2 ? presetAddresses : [...presetAddresses, '', ''].slice(0, 2));
+    }
+    setLimit(config.maxTransactions);
+    setTimeWindow(config.timeWindowSeconds);
+    setIncludePrograms(config.includePrograms);
+    setFromDate(config.fromTime !== undefined ? new Date(config.fromTime * 1000).toISOString().slice(0, 10) : '');
+    setToDate(config.toTime !== undefined ? new Date(config.toTime * 1000).toISOString().slice(0, 10) : '');
+    setFullHistory(!!config.fullHistory);
+    setTraceIntermediaries(!!config.traceIntermediaries);
+    setTraceDepth(config.traceDepth ?? DEFAULT_TRACE_DEPTH);
+    setTraceBudget(config.traceBudget ?? DEFAULT_TRACE_BUDGET);
+    setAnalyzeFunding(!!config.analyzeFunding);
+    setError(null);
+  }, [preset]);
+
+  // These only affect the heuristics, so the parent can re-run them on already fetched data
+  useEffect(() => {
+    onSettingsChange?.(cleanAddresses().map(adapter.normalizeAddress), buildConfig());
+  }, [timeWindow, includePrograms]);
 
   const handleChange = (index: number, value: string) => {
     const newAddresses = [...addresses];
@@ -26,7 +94,7 @@ const AddressInput: React.FC<Props> = ({ onAnalyze, isLoading }) => {
   };
 
   const addField = () => {
-    if (addresses.length < 5) {
+    if (addresses.length < MAX_ADDRESS_FIELDS) {
       setAddresses([...addresses, '']);
     }
   };
@@ -38,26 +106,59 @@ const AddressInput: React.FC<Props> = ({ onAnalyze, isLoading }) => {
     }
   };
 
+  // The list carries over between modes; going back to fields only works while they can hold it
+  const toggleBulk = () => {
+    if (bulk) {
+      const list = parsedList.addresses;
+      setAddresses(list.length >= 2 ? list : [...list, '', ''].slice(0, 2));
+    } else {
+      setBulkText(cleanFields().join('\n'));
+    }
+    setBulk(!bulk);
+    setError(null);
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-uploading the same file
+    if (!file) return;
+    file.text()
+      .then(text => { setBulkText(text); setError(null); })
+      .catch(() => setError(`Could not read ${file.name}`));
+  };
+
+  const removeInvalidLines = () => {
+    const invalid = new Set(parsedList.errors.map(err => err.line));
+    setBulkText(bulkText.split(/\r?\n/).filter((_, i) => !invalid.has(i + 1)).join('\n'));
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const validAddresses = addresses.map(a => a.trim()).filter(a => a !== '');
+    const validAddresses = cleanAddresses();
+
+    if (bulk && parsedList.errors.length > 0) {
+      setError(`${parsedList.errors.length} line(s) could not be read. Fix or remove them first.`);
+      return;
+    }
     
     if (validAddresses.length < 2) {
       setError("Please enter at least 2 wallet addresses.");
       return;
     }
 
-    const invalid = validAddresses.find(a => !validateAddress(a));
+    const invalid = validAddresses.find(a => !adapter.validateAddress(a));
     if (invalid) {
-      setError(`Invalid Solana address: ${invalid}`);
+      setError(`Invalid ${adapter.addressLabel} address: ${invalid}`);
+      return;
+    }
+
+    const config = buildConfig();
+    if (config.fromTime !== undefined && config.toTime !== undefined && config.fromTime > config.toTime) {
+      setError("The start date must be before the end date.");
       return;
     }
 
-    onAnalyze(validAddresses, {
-      maxTransactions: limit,
-      timeWindowSeconds: timeWindow,
-      includePrograms
-    });
+    onAnalyze(Array.from(new Set(validAddresses.map(adapter.normalizeAddress))), config);
   };
 
   return (
@@ -67,6 +168,74 @@ const AddressInput: React.FC<Props> = ({ onAnalyze, isLoading }) => {
         Target Wallets
       </h2>
       <form onSubmit={handleSubmit}>
+        <div className="mb-4">
+          <label className="block text-xs text-slate-400 mb-1">Chain</label>
+          <select
+            value={chain}
+            onChange={(e) => { onChainChange(e.target.value as ChainId); setError(null); }}
+            disabled={isLoading}
+            className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-primary focus:border-transparent outline-none"
+          >
+            {Object.values(CHAIN_ADAPTERS).map(a => (
+              <option key={a.id} value={a.id}>{a.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex justify-end mb-2">
+          <button
+            type="button"
+            onClick={toggleBulk}
+            disabled={bulk && parsedList.addresses.length > MAX_ADDRESS_FIELDS}
+            className="text-xs text-slate-400 hover:text-white disabled:opacity-40 transition-colors"
+            title={bulk && parsedList.addresses.length > MAX_ADDRESS_FIELDS ? `Individual fields hold up to ${MAX_ADDRESS_FIELDS} wallets` : undefined}
+          >
+            {bulk ? 'Enter one by one' : 'Bulk import'}
+          </button>
+        </div>
+
+        {bulk ? (
+          <div>
+            <textarea
+              value={bulkText}
+              onChange={(e) => { setBulkText(e.target.value); setError(null); }}
+              placeholder={`One ${adapter.addressLabel} address per line, or paste a CSV (up to ${MAX_INPUT_ADDRESSES})`}
+              rows={8}
+              spellCheck={false}
+              className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-xs text-white focus:ring-2 focus:ring-primary focus:border-transparent outline-none placeholder-slate-500 font-mono resize-y"
+            />
+            <div className="flex items-center gap-3 mt-1 text-xs">
+              <span className="text-slate-400">
+                {parsedList.addresses.length} wallets
+                {parsedList.duplicates > 0 && <span className="text-slate-500"> · {parsedList.duplicates} duplicates dropped</span>}
+                {parsedList.errors.length > 0 && <span className="text-red-400"> · {parsedList.errors.length} invalid</span>}
+              </span>
+              <button type="button" onClick={() => fileRef.current?.click()} className="ml-auto flex items-center gap-1 text-primary hover:text-blue-400 transition-colors">
+                <Upload className="w-3.5 h-3.5" /> CSV / TXT
+              </button>
+              <input ref={fileRef} type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleFile} className="hidden" />
+            </div>
+            {parsedList.errors.length > 0 && (
+              <div className="mt-2 p-2 bg-red-900/10 border border-red-500/30 rounded-lg text-[11px]">
+                <div className="space-y-0.5 max-h-[120px] overflow-y-auto pr-1">
+                  {parsedList.errors.slice(0, MAX_LISTED_ERRORS).map(err => (
+                    <div key={err.line} className="flex gap-2">
+                      <span className="text-slate-500 shrink-0">Line {err.line}</span>
+                      <span className="font-mono text-red-300 truncate" title={err.value}>{err.value}</span>
+                      <span className="text-slate-400 ml-auto shrink-0">{err.message}</span>
+                    </div>
+                  ))}
+                  {parsedList.errors.length > MAX_LISTED_ERRORS && (
+                    <div className="text-slate-500">…and {parsedList.errors.length - MAX_LISTED_ERRORS} more</div>
+                  )}
+                </div>
+                <button type="button" onClick={removeInvalidLines} className="mt-1 text-red-300 hover:text-red-200 transition-colors">
+                  Remove invalid lines
+                </button>
+              </div>
+            )}
+          </div>
+        ) : (
         <div className="space-y-3">
           {addresses.map((addr, idx) => (
             <div key={idx} className="flex gap-2">
@@ -74,7 +243,7 @@ const AddressInput: React.FC<Props> = ({ onAnalyze, isLoading }) => {
                 type="text"
                 value={addr}
                 onChange={(e) => handleChange(idx, e.target.value)}
-                placeholder={`Solana Address ${idx + 1}`}
+                placeholder={`${adapter.addressLabel} Address ${idx + 1}`}
                 className="flex-1 bg-slate-900 border border-slate-600 rounded-lg px-4 py-2 text-sm text-white focus:ring-2 focus:ring-primary focus:border-transparent outline-none transition-all placeholder-slate-500 font-mono"
               />
               {addresses.length > 2 && (
@@ -89,8 +258,9 @@ const AddressInput: React.FC<Props> = ({ onAnalyze, isLoading }) => {
             </div>
           ))}
         </div>
+        )}
         
-        {addresses.length < 5 && (
+        {!bulk && addresses.length < MAX_ADDRESS_FIELDS && (
           <button
             type="button"
             onClick={addField}
@@ -122,16 +292,47 @@ const AddressInput: React.FC<Props> = ({ onAnalyze, isLoading }) => {
                   max="500" 
                   step="25"
                   value={limit}
+                  disabled={fullHistory}
                   onChange={(e) => setLimit(Number(e.target.value))}
-                  className="w-full accent-primary h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer"
+                  className="w-full accent-primary h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer disabled:opacity-40"
                 />
                 <div className="flex justify-between text-xs text-slate-500 mt-1">
                   <span>25 (Fast)</span>
-                  <span className="text-primary font-mono">{limit} txs</span>
+                  <span className="text-primary font-mono">{fullHistory ? `≤ ${FULL_HISTORY_MAX_TX}` : limit} txs</span>
                   <span>500 (Deep)</span>
                 </div>
               </div>
 
+              <div className="flex items-center gap-2">
+                <input 
+                  type="checkbox"
+                  id="fullHistory"
+                  checked={fullHistory}
+                  onChange={(e) => setFullHistory(e.target.checked)}
+                  className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-primary focus:ring-primary"
+                />
+                <label htmlFor="fullHistory" className="text-sm text-slate-300">Crawl Full History</label>
+              </div>
+              <p className="text-[10px] text-slate-500 -mt-3">Pages back to the first transaction (or the start date), stopping at {FULL_HISTORY_MAX_TX} txs per wallet.</p>
+
+              <div>
+                <label className="block text-xs text-slate-400 mb-1">Date Range (UTC, optional)</label>
+                <div className="flex gap-2">
+                  <input 
+                    type="date" 
+                    value={fromDate}
+                    onChange={(e) => setFromDate(e.target.value)}
+                    className="flex-1 bg-slate-800 border border-slate-600 rounded px-3 py-1.5 text-sm text-white focus:border-primary outline-none"
+                  />
+                  <input 
+                    type="date" 
+                    value={toDate}
+                    onChange={(e) => setToDate(e.target.value)}
+                    className="flex-1 bg-slate-800 border border-slate-600 rounded px-3 py-1.5 text-sm text-white focus:border-primary outline-none"
+                  />
+                </div>
+              </div>
+
               <div>
                 <label className="block text-xs text-slate-400 mb-1">Coordinated Time Window (Seconds)</label>
                 <input 
@@ -143,6 +344,61 @@ const AddressInput: React.FC<Props> = ({ onAnalyze, isLoading }) => {
                 <p className="text-[10px] text-slate-500 mt-1">Max time diff between transactions to flag as "coordinated".</p>
               </div>
 
+              <div>
+                <div className="flex items-center gap-2">
+                  <input 
+                    type="checkbox"
+                    id="analyzeFunding"
+                    checked={analyzeFunding}
+                    onChange={(e) => setAnalyzeFunding(e.target.checked)}
+                    className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-primary focus:ring-primary"
+                  />
+                  <label htmlFor="analyzeFunding" className="text-sm text-slate-300">Funding-Source Analysis</label>
+                </div>
+                <p className="text-[10px] text-slate-500 mt-1">Walks back to each wallet's first deposit to find who funded it.</p>
+              </div>
+
+              <div>
+                <div className="flex items-center gap-2">
+                  <input 
+                    type="checkbox"
+                    id="traceIntermediaries"
+                    checked={traceIntermediaries}
+                    onChange={(e) => setTraceIntermediaries(e.target.checked)}
+                    className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-primary focus:ring-primary"
+                  />
+                  <label htmlFor="traceIntermediaries" className="text-sm text-slate-300">Trace Intermediaries (Multi-Hop)</label>
+                </div>
+                {traceIntermediaries && (
+                  <div className="grid grid-cols-2 gap-2 mt-2">
+                    <div>
+                      <label className="block text-[10px] text-slate-500 mb-1">Max Hops Between Inputs</label>
+                      <select
+                        value={traceDepth}
+                        onChange={(e) => setTraceDepth(Number(e.target.value))}
+                        className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm text-white focus:border-primary outline-none"
+                      >
+                        <option value={1}>1 (A → M → B)</option>
+                        <option value={2}>2</option>
+                        <option value={3}>3</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-[10px] text-slate-500 mb-1">Wallets to Expand</label>
+                      <input 
+                        type="number" 
+                        min={1}
+                        max={100}
+                        value={traceBudget}
+                        onChange={(e) => setTraceBudget(Number(e.target.value))}
+                        className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm text-white focus:border-primary outline-none"
+                      />
+                    </div>
+                  </div>
+                )}
+                <p className="text-[10px] text-slate-500 mt-1">Fetches intermediary histories to confirm actual A → M → B money flows.</p>
+              </div>
+
                <div className="flex items-center gap-2">
                 <input 
                   type="checkbox"
@@ -182,7 +438,7 @@ const AddressInput: React.FC<Props> = ({ onAnalyze, isLoading }) => {
               Scanning Blockchain...
             </span>
           ) : (
-            'Start Investigation'
+            bulk ? `Start Investigation (${parsedList.addresses.length} wallets)` : 'Start Investigation'
           )}
         </button>
       </form>
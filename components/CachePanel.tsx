@@ -0,0 +1,60 @@
+import React, { useEffect, useState } from 'react';
+import { Database, Trash2 } from 'lucide-react';
+import { CacheStats, getCacheStats, isCacheAvailable, purgeCache } from '../services/cacheService';
+
+interface Props {
+  refreshKey: number; // Bumped by the parent whenever an analysis may have written to the cache
+  onPurged: () => void;
+}
+
+const CachePanel: React.FC<Props> = ({ refreshKey, onPurged }) => {
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [isPurging, setIsPurging] = useState(false);
+
+  useEffect(() => {
+    if (!isCacheAvailable()) return;
+    getCacheStats()
+      .then(setStats)
+      .catch(err => console.warn("Failed to read cache stats", err));
+  }, [refreshKey]);
+
+  const handlePurge = async () => {
+    if (!confirm("Delete all cached transactions? The next investigation will re-download every history.")) return;
+    setIsPurging(true);
+    try {
+      await purgeCache();
+      setStats(await getCacheStats());
+      onPurged();
+    } catch (err) {
+      console.error(err);
+      alert("Failed to purge the cache.");
+    } finally {
+      setIsPurging(false);
+    }
+  };
+
+  if (!isCacheAvailable()) return null;
+
+  return (
+    <div className="p-4 bg-slate-900/50 rounded-xl border border-slate-800 flex items-center justify-between text-sm">
+      <div className="flex items-center gap-2 text-slate-400">
+        <Database className="w-4 h-4 text-slate-500" />
+        <span>
+          Local cache: <span className="font-mono text-slate-200">{stats?.transactions ?? 0}</span> txs /{' '}
+          <span className="font-mono text-slate-200">{stats?.addresses ?? 0}</span> wallets
+        </span>
+      </div>
+      <button
+        type="button"
+        onClick={handlePurge}
+        disabled={isPurging || !stats || stats.transactions === 0}
+        className="flex items-center gap-1 text-xs text-slate-400 hover:text-red-400 disabled:opacity-40 disabled:hover:text-slate-400 transition-colors"
+        title="Purge cached transactions"
+      >
+        <Trash2 className="w-3.5 h-3.5" /> Purge
+      </button>
+    </div>
+  );
+};
+
+export default CachePanel;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { ExternalLink } from 'lucide-react';
+import { ConnectedPair } from '../types';
+
+interface Props {
+  pair: ConnectedPair;
+  explorerTxUrl: (signature: string) => string;
+}
+
+const formatTime = (blockTime: number) =>
+  blockTime ? new Date(blockTime * 1000).toISOString().replace('T', ' ').slice(0, 19) : '—';
+
+const formatDelta = (seconds: number) =>
+  seconds < 120 ? `${seconds}s` : seconds < 7200 ? `${Math.round(seconds / 60)}m` : seconds < 172800 ? `${Math.round(seconds / 3600)}h` : `${Math.round(seconds / 86400)}d`;
+
+// Every piece of evidence behind a pair's score, with its transactions
+const EvidenceLedger: React.FC<Props> = ({ pair, explorerTxUrl }) => (
+  <div className="mt-2 pt-2 border-t border-slate-800 space-y-2" onClick={(e) => e.stopPropagation()}>
+    {pair.breakdown.items.map((item, i) => (
+      <div key={i} className="text-[10px] text-slate-500">
+        <div className="flex justify-between gap-2">
+          <span className="text-slate-300">{item.type.replace(/_/g, ' ').toLowerCase()}</span>
+          <span className="font-mono shrink-0" title="weight × strength × diminishing returns">
+            {Math.round(item.weight * 100)}% × {item.strength.toFixed(2)} × {item.decay.toFixed(2)} = {(item.probability * 100).toFixed(1)}%
+          </span>
+        </div>
+        <div className="text-slate-400">{item.reason}</div>
+        {(item.counterparty || item.timeDelta !== undefined) && (
+          <div className="flex gap-3">
+            {item.counterparty && <span className="font-mono" title={item.counterparty}>via {item.counterparty.slice(0, 8)}...</span>}
+            {item.timeDelta !== undefined && <span>Δt {formatDelta(item.timeDelta)}</span>}
+          </div>
+        )}
+        {item.signatures.map((sig, j) => (
+          <a
+            key={j}
+            href={explorerTxUrl(sig)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 font-mono text-blue-400 hover:text-blue-300"
+          >
+            <ExternalLink className="w-2.5 h-2.5 shrink-0" />
+            {sig.slice(0, 16)}... <span className="text-slate-500">{formatTime(item.timestamps[j])}</span>
+          </a>
+        ))}
+      </div>
+    ))}
+  </div>
+);
+
+export default EvidenceLedger;
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { Filter, Search, X } from 'lucide-react';
+import { ConnectionType, GraphData, GraphFilter } from '../types';
+import { linkColor } from '../constants';
+import { DEFAULT_GRAPH_FILTER, isFilterActive } from '../services/graphFilterService';
+
+interface Props {
+  graph: GraphData; // Unfiltered, so every type present can be toggled back on
+  inputs: string[];
+  filter: GraphFilter;
+  onChange: (filter: GraphFilter) => void;
+  search: string;
+  onSearchChange: (search: string) => void;
+  onSearchSubmit: () => void; // Enter: open the first hit
+  matchCount: number;
+  shownNodes: number;
+}
+
+const shortAddr = (address: string) => `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+// Live view controls over the analysed graph: nothing here refetches or re-runs the analysis
+const GraphFilterPanel: React.FC<Props> = ({ graph, inputs, filter, onChange, search, onSearchChange, onSearchSubmit, matchCount, shownNodes }) => {
+  const types = Object.values(ConnectionType).filter(type => graph.links.some(l => l.type === type));
+  const maxValue = Math.max(...graph.links.map(l => l.value), 0);
+  const hasPrograms = graph.nodes.some(n => n.group === 'program');
+  // A half-chosen pair lives here until both ends are picked
+  const [[focusA, focusB], setDraft] = useState<[string, string]>(filter.focusPair ?? ['', '']);
+
+  useEffect(() => {
+    if (filter.focusPair) setDraft(filter.focusPair);
+    else if (focusA && focusB && focusA !== focusB) setDraft(['', '']); // Reset from outside
+  }, [filter.focusPair]);
+
+  const toggleType = (type: ConnectionType) => onChange({
+    ...filter,
+    hiddenTypes: filter.hiddenTypes.includes(type) ? filter.hiddenTypes.filter(t => t !== type) : [...filter.hiddenTypes, type]
+  });
+
+  // Focus needs two different inputs; picking one leaves it off until the other is chosen
+  const setFocus = (a: string, b: string) => {
+    setDraft([a, b]);
+    const focusPair: [string, string] | null = a && b && a !== b ? [a, b] : null;
+    if (focusPair || filter.focusPair) onChange({ ...filter, focusPair });
+  };
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-800 text-xs text-slate-400 px-4 py-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <Filter className="w-4 h-4 text-slate-500" />
+        <span className="text-sm">Graph View</span>
+        <span className="text-slate-500">{shownNodes} of {graph.nodes.length} nodes</span>
+        {isFilterActive(filter) && (
+          <button
+            type="button"
+            onClick={() => onChange(DEFAULT_GRAPH_FILTER)}
+            className="ml-auto flex items-center gap-1 text-slate-400 hover:text-white transition-colors"
+          >
+            <X className="w-3.5 h-3.5" /> Reset
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {types.map(type => {
+          const hidden = filter.hiddenTypes.includes(type);
+          return (
+            <button
+              key={type}
+              type="button"
+              onClick={() => toggleType(type)}
+              className={`flex items-center gap-1 px-2 py-0.5 rounded-full border transition-colors ${hidden ? 'border-slate-800 text-slate-600 line-through' : 'border-slate-700 text-slate-300 hover:border-slate-500'}`}
+              title={hidden ? 'Show these links' : 'Hide these links'}
+            >
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: linkColor(type), opacity: hidden ? 0.3 : 1 }}></span>
+              {type.replace(/_/g, ' ').toLowerCase()}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        <label className="flex items-center gap-2">
+          Min. link strength
+          <input
+            type="range"
+            min={0}
+            max={Math.ceil(maxValue)}
+            step={0.5}
+            value={filter.minLinkValue}
+            onChange={(e) => onChange({ ...filter, minLinkValue: Number(e.target.value) })}
+            className="w-28 accent-blue-500"
+          />
+          <span className="font-mono text-slate-300 w-6">{filter.minLinkValue}</span>
+        </label>
+
+        {hasPrograms && (
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={filter.showPrograms}
+              onChange={(e) => onChange({ ...filter, showPrograms: e.target.checked })}
+              className="accent-blue-500"
+            />
+            Programs
+          </label>
+        )}
+
+        {inputs.length > 1 && (
+          <div className="flex items-center gap-1">
+            Focus
+            <select
+              value={focusA}
+              onChange={(e) => setFocus(e.target.value, focusB)}
+              className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 font-mono text-slate-300 outline-none"
+            >
+              <option value="">—</option>
+              {inputs.map(a => <option key={a} value={a}>{shortAddr(a)}</option>)}
+            </select>
+            ↔
+            <select
+              value={focusB}
+              onChange={(e) => setFocus(focusA, e.target.value)}
+              className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 font-mono text-slate-300 outline-none"
+            >
+              <option value="">—</option>
+              {inputs.map(a => <option key={a} value={a}>{shortAddr(a)}</option>)}
+            </select>
+          </div>
+        )}
+
+        <div className="flex items-center gap-1 ml-auto bg-slate-900 border border-slate-700 rounded px-2 py-0.5">
+          <Search className="w-3.5 h-3.5 text-slate-500" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => onSearchChange(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') onSearchSubmit(); }}
+            placeholder="Find address or label"
+            className="bg-transparent outline-none text-slate-200 w-40 font-mono"
+          />
+          {search && <span className="text-slate-500">{matchCount}</span>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GraphFilterPanel;
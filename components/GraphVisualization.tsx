@@ -1,16 +1,384 @@
 import React, { useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
 import { GraphData, Node, Link, ConnectionType } from '../types';
-import { COLORS } from '../constants';
+import { CANVAS_NODE_THRESHOLD, COLORS, DIRECTED_CONNECTION_TYPES, clusterColor, linkColor } from '../constants';
+import { snapshotGraphCanvas, snapshotGraphSvg } from '../services/reportService';
 
 interface Props {
   data: GraphData;
+  // Set to a function returning the rendered graph as standalone markup (reports)
+  snapshotRef?: React.MutableRefObject<(() => string | null) | null>;
+  selectedId?: string | null; // Ringed, e.g. the node open in the inspector
+  matchedIds?: Set<string>; // Ringed in another colour, e.g. graph search hits
+  onNodeClick?: (id: string) => void;
 }
 
-const GraphVisualization: React.FC<Props> = ({ data }) => {
+type SimNode = Node & d3.SimulationNodeDatum;
+type SimLink = Omit<Link, 'source' | 'target'> & { source: SimNode; target: SimNode };
+type Simulation = d3.Simulation<SimNode, undefined>;
+
+// Extra ring drawn around a node
+type Ring = 'selected' | 'match' | null;
+
+// What a renderer needs from the component beyond the graph itself
+interface RenderHooks {
+  ringOf: (id: string) => Ring;
+  onClick: (node: SimNode) => void;
+}
+
+// Hands a renderer the hovered node (null when the pointer leaves it), in container coordinates
+type HoverHandler = (node: SimNode | null, x: number, y: number) => void;
+
+const NODE_COLORS: Record<Node['group'], string> = {
+  input: COLORS.input,
+  program: COLORS.program,
+  middleman: '#f59e0b', // Amber
+  change: COLORS.change,
+  funder: COLORS.funder,
+  asset: COLORS.asset,
+  counterparty: COLORS.counterparty,
+};
+
+const linkDash = (type: ConnectionType): [number, number] | null => {
+  if (type === ConnectionType.TIME_PROXIMATE || type === ConnectionType.TEMPORAL_FINGERPRINT) return [5, 5]; // Dashed for time links
+  if (type === ConnectionType.BEHAVIOR_FINGERPRINT) return [2, 4]; // Dotted for behavioral likeness
+  return null;
+};
+
+// Thickness is relative to the largest value flow in the graph
+const linkWidth = (link: { volume?: number }, maxVolume: number) => link.volume ? 1 + 9 * Math.sqrt(link.volume / maxVolume) : 1;
+
+const nodeTooltip = (d: Node) => d.entity
+  ? `${d.entity.name} (${d.entity.category.toLowerCase()})\n${d.id}\nType: ${d.group}`
+  : `${d.id}\nType: ${d.group}`;
+
+// Selection and search hits win over the flagged ring (mixers, scams)
+const nodeStroke = (d: Node, ring: Ring) =>
+  ring === 'selected' ? COLORS.selected : ring === 'match' ? COLORS.searchMatch : d.highlighted ? COLORS.highlight : "#fff";
+const nodeStrokeWidth = (d: Node, ring: Ring) => ring || d.highlighted ? 4 : 1.5;
+
+const hasLabel = (d: Node) => d.group === 'input' || d.group === 'middleman' || d.group === 'funder' || !!d.entity;
+
+// Padded points around each member so even a two-wallet cluster has a proper hull
+const clusterHull = (nodes: SimNode[], id: number) => {
+  const points: [number, number][] = [];
+  nodes.forEach(n => {
+    if (n.cluster !== id) return;
+    const r = n.val + 14;
+    for (let a = 0; a < 8; a++) {
+      points.push([n.x! + r * Math.cos(a * Math.PI / 4), n.y! + r * Math.sin(a * Math.PI / 4)]);
+    }
+  });
+  return d3.polygonHull(points);
+};
+
+// `position` maps a drag event to graph coordinates; the canvas applies its zoom transform itself
+const dragBehavior = (
+  simulation: Simulation,
+  position: (event: any) => [number, number] = (event) => [event.x, event.y]
+) => d3.drag<any, SimNode>()
+  .on("start", (event) => {
+    if (!event.active) simulation.alphaTarget(0.3).restart();
+    event.subject.fx = event.subject.x;
+    event.subject.fy = event.subject.y;
+  })
+  .on("drag", (event) => {
+    [event.subject.fx, event.subject.fy] = position(event);
+  })
+  .on("end", (event) => {
+    if (!event.active) simulation.alphaTarget(0);
+    event.subject.fx = null;
+    event.subject.fy = null;
+  });
+
+// One element per node and link; crisp, and what the report snapshot serialises
+const renderSvg = (
+  svgElement: SVGSVGElement,
+  simulation: Simulation,
+  nodes: SimNode[],
+  links: SimLink[],
+  clusterIds: number[],
+  { ringOf, onClick }: RenderHooks
+) => {
+  const svg = d3.select(svgElement);
+  svg.selectAll("*").remove(); // Clear previous render
+  const maxVolume = Math.max(...links.map(l => l.volume || 0), Number.EPSILON);
+
+  // The element keeps its zoom state across renders; start the new layer from it so the view doesn't jump
+  const g = svg.append("g").attr("transform", d3.zoomTransform(svgElement).toString());
+  svg.call(d3.zoom<SVGSVGElement, unknown>()
+    .scaleExtent([0.1, 4])
+    .on("zoom", (event) => { g.attr("transform", event.transform); }));
+
+  // Entity cluster hulls, drawn beneath everything else
+  const hull = g.append("g")
+    .selectAll("path")
+    .data(clusterIds)
+    .join("path")
+    .attr("fill", (id) => clusterColor(id))
+    .attr("fill-opacity", 0.12)
+    .attr("stroke", (id) => clusterColor(id))
+    .attr("stroke-opacity", 0.5)
+    .attr("stroke-width", 1.5)
+    .attr("stroke-linejoin", "round");
+  hull.append("title").text((id) => `Probable entity #${id}`);
+
+  // Defs for markers (arrows)
+  svg.append("defs").append("marker")
+    .attr("id", "arrow")
+    .attr("viewBox", "0 -5 10 10")
+    .attr("refX", 25)
+    .attr("refY", 0)
+    .attr("markerWidth", 6)
+    .attr("markerHeight", 6)
+    .attr("orient", "auto")
+    .append("path")
+    .attr("d", "M0,-5L10,0L0,5")
+    .attr("fill", "#999");
+
+  const link = g.append("g")
+    .attr("stroke-opacity", 0.6)
+    .selectAll("line")
+    .data(links)
+    .join("line")
+    .attr("stroke-width", (d) => linkWidth(d, maxVolume))
+    .attr("stroke", (d) => linkColor(d.type))
+    .attr("stroke-dasharray", (d) => linkDash(d.type)?.join(',') ?? null)
+    .attr("marker-end", (d) => DIRECTED_CONNECTION_TYPES.includes(d.type) ? "url(#arrow)" : null); // Directed flows
+
+  const node = g.append("g")
+    .selectAll<SVGCircleElement, SimNode>("circle")
+    .data(nodes)
+    .join("circle")
+    .attr("r", (d) => d.val)
+    .attr("stroke", (d) => nodeStroke(d, ringOf(d.id)))
+    .attr("stroke-width", (d) => nodeStrokeWidth(d, ringOf(d.id)))
+    .attr("fill", (d) => NODE_COLORS[d.group])
+    .attr("cursor", "pointer")
+    .on("click", (_event, d) => onClick(d)) // Drags swallow their click
+    .call(dragBehavior(simulation));
+
+  node.append("title").text(nodeTooltip);
+
+  const label = g.append("g")
+    .selectAll("text")
+    .data(nodes)
+    .join("text")
+    .attr("dy", (d) => -d.val - 5)
+    .attr("text-anchor", "middle")
+    .text((d) => hasLabel(d) ? d.label : '')
+    .attr("font-size", "10px")
+    .attr("fill", "#e2e8f0")
+    .attr("pointer-events", "none")
+    .style("text-shadow", "0 1px 2px rgba(0,0,0,0.8)");
+
+  simulation.on("tick", () => {
+    hull.attr("d", (id) => {
+      const polygon = clusterHull(nodes, id);
+      return polygon ? `M${polygon.join('L')}Z` : null;
+    });
+
+    link
+      .attr("x1", (d) => d.source.x!)
+      .attr("y1", (d) => d.source.y!)
+      .attr("x2", (d) => d.target.x!)
+      .attr("y2", (d) => d.target.y!);
+
+    node
+      .attr("cx", (d) => d.x!)
+      .attr("cy", (d) => d.y!);
+
+    label
+      .attr("x", (d) => d.x!)
+      .attr("y", (d) => d.y!);
+  });
+};
+
+/**
+ * Everything on one canvas, redrawn at most once per frame. Dragging picks the node under the
+ * pointer (so it must be attached before zoom, which handles everything else), and hovering
+ * reports the node for an HTML tooltip. Returns a redraw for resizes and selection changes.
+ */
+const renderCanvas = (
+  canvas: HTMLCanvasElement,
+  simulation: Simulation,
+  nodes: SimNode[],
+  links: SimLink[],
+  clusterIds: number[],
+  { ringOf, onClick }: RenderHooks,
+  onHover: HoverHandler
+) => {
+  const context = canvas.getContext("2d")!;
+  const maxVolume = Math.max(...links.map(l => l.volume || 0), Number.EPSILON);
+  let transform = d3.zoomTransform(canvas); // Kept on the element from the previous render
+  let frame: number | null = null;
+
+  const draw = () => {
+    frame = null;
+    const ratio = window.devicePixelRatio || 1;
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.setTransform(ratio * transform.k, 0, 0, ratio * transform.k, ratio * transform.x, ratio * transform.y);
+
+    clusterIds.forEach(id => {
+      const polygon = clusterHull(nodes, id);
+      if (!polygon) return;
+      context.beginPath();
+      polygon.forEach(([x, y], i) => i === 0 ? context.moveTo(x, y) : context.lineTo(x, y));
+      context.closePath();
+      context.globalAlpha = 0.12;
+      context.fillStyle = clusterColor(id);
+      context.fill();
+      context.globalAlpha = 0.5;
+      context.lineWidth = 1.5;
+      context.lineJoin = "round";
+      context.strokeStyle = clusterColor(id);
+      context.stroke();
+    });
+
+    context.globalAlpha = 0.6;
+    links.forEach(l => {
+      const { source: s, target: t } = l;
+      context.beginPath();
+      context.moveTo(s.x!, s.y!);
+      context.lineTo(t.x!, t.y!);
+      context.setLineDash(linkDash(l.type) ?? []);
+      context.lineWidth = linkWidth(l, maxVolume);
+      context.strokeStyle = linkColor(l.type);
+      context.stroke();
+
+      if (DIRECTED_CONNECTION_TYPES.includes(l.type)) {
+        // Arrowhead at the rim of the target
+        const angle = Math.atan2(t.y! - s.y!, t.x! - s.x!);
+        const tipX = t.x! - Math.cos(angle) * (t.val + 2);
+        const tipY = t.y! - Math.sin(angle) * (t.val + 2);
+        context.beginPath();
+        context.moveTo(tipX, tipY);
+        context.lineTo(tipX - 9 * Math.cos(angle - 0.45), tipY - 9 * Math.sin(angle - 0.45));
+        context.lineTo(tipX - 9 * Math.cos(angle + 0.45), tipY - 9 * Math.sin(angle + 0.45));
+        context.closePath();
+        context.fillStyle = "#999";
+        context.fill();
+      }
+    });
+    context.setLineDash([]);
+    context.globalAlpha = 1;
+
+    nodes.forEach(n => {
+      context.beginPath();
+      context.arc(n.x!, n.y!, n.val, 0, 2 * Math.PI);
+      context.fillStyle = NODE_COLORS[n.group];
+      context.fill();
+      context.lineWidth = nodeStrokeWidth(n, ringOf(n.id));
+      context.strokeStyle = nodeStroke(n, ringOf(n.id));
+      context.stroke();
+    });
+
+    context.font = "10px Inter, sans-serif";
+    context.textAlign = "center";
+    context.fillStyle = "#e2e8f0";
+    context.shadowColor = "rgba(0,0,0,0.8)";
+    context.shadowBlur = 2;
+    nodes.forEach(n => {
+      if (hasLabel(n)) context.fillText(n.label, n.x!, n.y! - n.val - 5);
+    });
+    context.shadowBlur = 0;
+  };
+
+  const redraw = () => {
+    if (frame === null) frame = requestAnimationFrame(draw);
+  };
+
+  // The node under a pointer position (canvas pixels)
+  const nodeAt = (pointer: [number, number]) => {
+    const [x, y] = transform.invert(pointer);
+    const nearest = simulation.find(x, y, 40);
+    return nearest && Math.hypot(nearest.x! - x, nearest.y! - y) <= nearest.val + 2 ? nearest : undefined;
+  };
+
+  const selection = d3.select(canvas);
+  selection
+    .call(dragBehavior(simulation, (event) => transform.invert(d3.pointer(event, canvas)))
+      .container(canvas)
+      .subject((event) => nodeAt([event.x, event.y])))
+    .call(d3.zoom<HTMLCanvasElement, unknown>()
+      .scaleExtent([0.1, 4])
+      .on("zoom", (event) => {
+        transform = event.transform;
+        redraw();
+      }));
+
+  let hovered: SimNode | undefined;
+  selection
+    .on("mousemove", (event: MouseEvent) => {
+      const n = nodeAt(d3.pointer(event, canvas));
+      if (n !== hovered) {
+        hovered = n;
+        canvas.style.cursor = n ? "pointer" : "";
+      }
+      onHover(n ?? null, event.offsetX, event.offsetY);
+    })
+    .on("mouseleave", () => {
+      hovered = undefined;
+      onHover(null, 0, 0);
+    })
+    .on("click", (event: MouseEvent) => {
+      const n = nodeAt(d3.pointer(event, canvas));
+      if (n) onClick(n);
+    });
+
+  simulation.on("tick", redraw);
+  return {
+    redraw,
+    stop: () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      selection.on(".drag", null).on(".zoom", null).on("mousemove", null).on("mouseleave", null).on("click", null);
+    }
+  };
+};
+
+// Positions of the last layout, so nodes already on screen stay put when the graph changes
+type LayoutMemory = Map<string, { x: number; y: number }>;
+
+// Known nodes where they were; new ones next to a known neighbour so they grow out of it
+const seedLayout = (nodes: SimNode[], links: Link[], memory: LayoutMemory) => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  let known = 0;
+  nodes.forEach(n => {
+    const position = memory.get(n.id);
+    if (position) {
+      Object.assign(n, position);
+      known++;
+    }
+  });
+  links.forEach(l => {
+    [[l.source, l.target], [l.target, l.source]].forEach(([id, anchorId]) => {
+      const n = byId.get(id);
+      const anchor = memory.get(anchorId);
+      if (!n || n.x !== undefined || !anchor) return;
+      n.x = anchor.x + (Math.random() - 0.5) * 60;
+      n.y = anchor.y + (Math.random() - 0.5) * 60;
+    });
+  });
+  return known;
+};
+
+const GraphVisualization: React.FC<Props> = ({ data, snapshotRef, selectedId = null, matchedIds, onNodeClick }) => {
   const svgRef = useRef<SVGSVGElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [dimensions, setDimensions] = useState({ width: 800, height: 600 });
+  const [tooltip, setTooltip] = useState<{ x: number; y: number; text: string } | null>(null);
+  // Read by the simulation without restarting it on every resize
+  const dimensionsRef = useRef(dimensions);
+  const simulationRef = useRef<Simulation | null>(null);
+  const redrawRef = useRef<(() => void) | null>(null);
+  const layoutRef = useRef<LayoutMemory>(new Map());
+  // Read by the renderers, so selecting or searching never rebuilds the graph
+  const ringOfRef = useRef<(id: string) => Ring>(() => null);
+  const onNodeClickRef = useRef(onNodeClick);
+  onNodeClickRef.current = onNodeClick;
+  const useCanvas = data.nodes.length > CANVAS_NODE_THRESHOLD;
 
   // Handle Resize
   useEffect(() => {
@@ -27,159 +395,112 @@ const GraphVisualization: React.FC<Props> = ({ data }) => {
     return () => window.removeEventListener('resize', updateDims);
   }, []);
 
+  // A resize only moves the centre the layout drifts towards (and resizes the canvas backing store)
   useEffect(() => {
-    if (!svgRef.current || data.nodes.length === 0) return;
-
-    const svg = d3.select(svgRef.current);
-    svg.selectAll("*").remove(); // Clear previous render
+    dimensionsRef.current = dimensions;
+    simulationRef.current?.force("center", d3.forceCenter(dimensions.width / 2, dimensions.height / 2));
+    const canvas = canvasRef.current;
+    if (canvas) {
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = dimensions.width * ratio;
+      canvas.height = dimensions.height * ratio;
+      redrawRef.current?.();
+    }
+  }, [dimensions, useCanvas]);
 
-    const width = dimensions.width;
-    const height = dimensions.height;
+  useEffect(() => {
+    if (data.nodes.length === 0) return;
+    const { width, height } = dimensionsRef.current;
 
-    const nodes = data.nodes.map(d => ({ ...d }));
-    const links = data.links.map(d => ({ ...d }));
+    const nodes: SimNode[] = data.nodes.map(d => ({ ...d }));
+    const links = data.links.map(d => ({ ...d })) as unknown as SimLink[]; // forceLink swaps ids for nodes
+    const clusterIds = Array.from(new Set(nodes.map(n => n.cluster).filter((c): c is number => c !== undefined)));
+    const known = seedLayout(nodes, data.links, layoutRef.current);
+    const hooks: RenderHooks = {
+      ringOf: (id) => ringOfRef.current(id),
+      onClick: (node) => onNodeClickRef.current?.(node.id)
+    };
 
-    const simulation = d3.forceSimulation(nodes as any)
-      .force("link", d3.forceLink(links).id((d: any) => d.id).distance(120))
+    const simulation: Simulation = d3.forceSimulation(nodes)
+      .force("link", d3.forceLink<SimNode, SimLink>(links).id(d => d.id).distance(120))
       .force("charge", d3.forceManyBody().strength(-400))
       .force("center", d3.forceCenter(width / 2, height / 2))
-      .force("collide", d3.forceCollide().radius((d: any) => d.val * 2.5));
-
-    // Zoom behavior
-    const zoom = d3.zoom()
-      .scaleExtent([0.1, 4])
-      .on("zoom", (event) => {
-        g.attr("transform", event.transform);
-      });
-
-    // @ts-ignore
-    svg.call(zoom);
-
-    const g = svg.append("g");
-
-    // Defs for markers (arrows)
-    svg.append("defs").selectAll("marker")
-    .data(["end"])
-    .enter().append("marker")
-    .attr("id", "arrow")
-    .attr("viewBox", "0 -5 10 10")
-    .attr("refX", 25)
-    .attr("refY", 0)
-    .attr("markerWidth", 6)
-    .attr("markerHeight", 6)
-    .attr("orient", "auto")
-    .append("path")
-    .attr("d", "M0,-5L10,0L0,5")
-    .attr("fill", "#999");
+      .force("collide", d3.forceCollide<SimNode>().radius(d => d.val * 2.5));
+    if (known > 0) simulation.alpha(0.3); // Settle the additions instead of re-laying out everything
+    simulationRef.current = simulation;
 
-    // Links
-    const link = g.append("g")
-      .attr("stroke-opacity", 0.6)
-      .selectAll("line")
-      .data(links)
-      .join("line")
-      .attr("stroke-width", (d) => Math.sqrt(d.value) * 1.5)
-      .attr("stroke", (d) => {
-        if (d.type === ConnectionType.DIRECT) return COLORS.linkDirect;
-        if (d.type === ConnectionType.MIDDLEMAN) return '#f59e0b'; // Amber for Middleman
-        if (d.type === ConnectionType.TIME_PROXIMATE) return '#d946ef'; // Magenta for Time
-        return COLORS.linkShared;
-      })
-      .attr("stroke-dasharray", (d) => {
-        if (d.type === ConnectionType.TIME_PROXIMATE) return "5,5"; // Dashed for time links
-        return null;
-      });
-
-    // Nodes
-    const node = g.append("g")
-      .attr("stroke", "#fff")
-      .attr("stroke-width", 1.5)
-      .selectAll("circle")
-      .data(nodes)
-      .join("circle")
-      .attr("r", (d) => d.val)
-      .attr("fill", (d) => {
-        if (d.group === 'input') return COLORS.input;
-        if (d.group === 'program') return COLORS.program;
-        if (d.group === 'middleman') return '#f59e0b'; // Amber
-        return COLORS.counterparty;
-      })
-      .call(drag(simulation) as any);
-
-    // Tooltips
-    node.append("title")
-      .text((d) => `${d.id}\nType: ${d.group}`);
-
-    // Labels
-    const label = g.append("g")
-      .selectAll("text")
-      .data(nodes)
-      .join("text")
-      .attr("dy", (d) => -d.val - 5)
-      .attr("text-anchor", "middle")
-      .text((d) => d.group === 'input' || d.group === 'middleman' ? d.label : '') 
-      .attr("font-size", "10px")
-      .attr("fill", "#e2e8f0")
-      .attr("pointer-events", "none")
-      .style("text-shadow", "0 1px 2px rgba(0,0,0,0.8)");
-
-    simulation.on("tick", () => {
-      link
-        .attr("x1", (d: any) => d.source.x)
-        .attr("y1", (d: any) => d.source.y)
-        .attr("x2", (d: any) => d.target.x)
-        .attr("y2", (d: any) => d.target.y);
-
-      node
-        .attr("cx", (d: any) => d.x)
-        .attr("cy", (d: any) => d.y);
-      
-      label
-        .attr("x", (d: any) => d.x)
-        .attr("y", (d: any) => d.y);
-    });
+    let stopCanvas: (() => void) | undefined;
+    if (useCanvas && canvasRef.current) {
+      const canvas = canvasRef.current;
+      const renderer = renderCanvas(canvas, simulation, nodes, links, clusterIds, hooks, (node, x, y) =>
+        setTooltip(node ? { x, y, text: nodeTooltip(node) } : null)
+      );
+      redrawRef.current = renderer.redraw;
+      stopCanvas = renderer.stop;
+      if (snapshotRef) snapshotRef.current = () => snapshotGraphCanvas(canvas);
+    } else if (svgRef.current) {
+      const svg = svgRef.current;
+      renderSvg(svg, simulation, nodes, links, clusterIds, hooks);
+      if (snapshotRef) snapshotRef.current = () => snapshotGraphSvg(svg);
+    }
 
     return () => {
       simulation.stop();
+      layoutRef.current = new Map(nodes.map(n => [n.id, { x: n.x!, y: n.y! }]));
+      stopCanvas?.();
+      simulationRef.current = null;
+      redrawRef.current = null;
+      setTooltip(null);
+      if (snapshotRef) snapshotRef.current = null;
     };
-  }, [data, dimensions]);
-
-  // Drag helper
-  const drag = (simulation: d3.Simulation<d3.SimulationNodeDatum, undefined>) => {
-    function dragstarted(event: any) {
-      if (!event.active) simulation.alphaTarget(0.3).restart();
-      event.subject.fx = event.subject.x;
-      event.subject.fy = event.subject.y;
-    }
-
-    function dragged(event: any) {
-      event.subject.fx = event.x;
-      event.subject.fy = event.y;
-    }
+  }, [data, useCanvas]);
 
-    function dragended(event: any) {
-      if (!event.active) simulation.alphaTarget(0);
-      event.subject.fx = null;
-      event.subject.fy = null;
+  useEffect(() => {
+    const ringOf = ringOfRef.current = (id: string): Ring => id === selectedId ? 'selected' : matchedIds?.has(id) ? 'match' : null;
+    if (svgRef.current) {
+      d3.select(svgRef.current).selectAll<SVGCircleElement, SimNode>("circle")
+        .attr("stroke", (d) => nodeStroke(d, ringOf(d.id)))
+        .attr("stroke-width", (d) => nodeStrokeWidth(d, ringOf(d.id)));
     }
-
-    return d3.drag()
-      .on("start", dragstarted)
-      .on("drag", dragged)
-      .on("end", dragended);
-  }
+    redrawRef.current?.();
+  }, [selectedId, matchedIds]);
 
   return (
     <div ref={containerRef} className="w-full h-full min-h-[500px] bg-slate-900 rounded-xl border border-slate-700 overflow-hidden relative shadow-inner">
-      <svg ref={svgRef} width="100%" height="100%" className="cursor-grab active:cursor-grabbing" />
+      {useCanvas ? (
+        <canvas ref={canvasRef} className="block w-full h-full cursor-grab active:cursor-grabbing" />
+      ) : (
+        <svg ref={svgRef} width="100%" height="100%" className="cursor-grab active:cursor-grabbing" />
+      )}
+      {tooltip && (
+        <div
+          className="absolute bg-slate-800/90 border border-slate-600 rounded px-2 py-1 text-[10px] text-slate-200 font-mono whitespace-pre pointer-events-none"
+          style={{ left: tooltip.x + 12, top: tooltip.y + 12 }}
+        >
+          {tooltip.text}
+        </div>
+      )}
       <div className="absolute bottom-4 right-4 bg-slate-800/80 backdrop-blur p-3 rounded-lg border border-slate-600 text-xs text-slate-300 pointer-events-none">
         <div className="flex items-center gap-2 mb-1"><div className="w-3 h-3 rounded-full bg-blue-500"></div> Target Input</div>
         <div className="flex items-center gap-2 mb-1"><div className="w-3 h-3 rounded-full bg-amber-500"></div> Middleman / Hub</div>
+        <div className="flex items-center gap-2 mb-1"><div className="w-3 h-3 rounded-full bg-purple-500"></div> Funding Source</div>
         <div className="flex items-center gap-2 mb-1"><div className="w-3 h-3 rounded-full bg-emerald-500"></div> Common Counterparty</div>
-        <div className="flex items-center gap-2"><div className="w-8 h-0.5 border-t border-dashed border-pink-500"></div> Time-Proximate</div>
+        <div className="flex items-center gap-2 mb-1"><div className="w-3 h-3 rounded-full bg-lime-500"></div> Shared Token / Collection</div>
+        <div className="flex items-center gap-2 mb-1"><div className="w-3 h-3 rounded-full bg-cyan-500"></div> Change Output</div>
+        <div className="flex items-center gap-2 mb-1"><div className="w-3 h-3 rounded-full border-2 border-red-500"></div> Flagged Entity</div>
+        <div className="flex items-center gap-2 mb-1"><div className="w-3 h-3 rounded bg-blue-500/20 border border-blue-500/50"></div> Probable Same Owner</div>
+        <div className="flex items-center gap-2 mb-1"><div className="w-8 h-0.5 bg-rose-600"></div> Co-Signed / Fee Sponsored</div>
+        <div className="flex items-center gap-2 mb-1"><div className="w-8 h-0.5 bg-cyan-400"></div> Co-Spent Inputs</div>
+        <div className="flex items-center gap-2 mb-1"><div className="w-8 h-0.5 bg-orange-400"></div> Traced Flow</div>
+        <div className="flex items-center gap-2 mb-1"><div className="w-8 h-0.5 bg-yellow-400"></div> Matching Amounts</div>
+        <div className="flex items-center gap-2 mb-1"><div className="w-8 h-0.5 bg-pink-400"></div> Peel Chain</div>
+        <div className="flex items-center gap-2 mb-1"><div className="w-8 h-0.5 border-t border-dashed border-pink-500"></div> Time-Proximate</div>
+        <div className="flex items-center gap-2 mb-1"><div className="w-8 h-0.5 border-t border-dashed border-indigo-400"></div> Same Activity Pattern</div>
+        <div className="flex items-center gap-2"><div className="w-8 h-0.5 border-t border-dotted border-teal-400"></div> Same Tx-Building Habits</div>
+        {useCanvas && <div className="mt-2 text-[10px] text-slate-500">{data.nodes.length} nodes · canvas mode</div>}
       </div>
     </div>
   );
 };
 
-export default GraphVisualization;
\ No newline at end of file
+export default GraphVisualization;
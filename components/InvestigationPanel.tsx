@@ -0,0 +1,192 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Briefcase, ChevronDown, ChevronUp, Download, FolderOpen, Save, Trash2, Upload } from 'lucide-react';
+import { Investigation, InvestigationMeta } from '../types';
+import {
+  deleteInvestigation,
+  exportInvestigationBundle,
+  investigationFileName,
+  isInvestigationStorageAvailable,
+  listInvestigations,
+  loadInvestigation,
+  parseInvestigationBundle,
+  saveInvestigation
+} from '../services/investigationService';
+import { downloadFile } from '../services/exportService';
+
+interface Props {
+  current: { id: string; name: string; notes: string } | null; // The open case, if it has been saved or loaded
+  canSave: boolean; // There are results to save
+  onSave: (name: string, notes: string) => Promise<void>;
+  onLoad: (investigation: Investigation) => void;
+  onNew: () => void;
+}
+
+const formatDate = (ms: number) => new Date(ms).toISOString().slice(0, 16).replace('T', ' ');
+
+const InvestigationPanel: React.FC<Props> = ({ current, canSave, onSave, onLoad, onNew }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [saved, setSaved] = useState<InvestigationMeta[]>([]);
+  const [name, setName] = useState('');
+  const [notes, setNotes] = useState('');
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => listInvestigations()
+    .then(setSaved)
+    .catch(err => console.warn("Failed to list investigations", err));
+
+  useEffect(() => { refresh(); }, []);
+
+  // Loading or starting a case replaces the draft
+  useEffect(() => {
+    setName(current?.name || '');
+    setNotes(current?.notes || '');
+  }, [current?.id]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      await action();
+    } catch (err: any) {
+      console.error(err);
+      setMessage({ text: err?.message ? `${failure}: ${err.message}` : failure, error: true });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = () => run(async () => {
+    await onSave(name.trim() || `Investigation ${formatDate(Date.now())}`, notes);
+    await refresh();
+    setMessage({ text: 'Saved' });
+  }, 'Failed to save');
+
+  const handleLoad = (id: string) => run(async () => {
+    const investigation = await loadInvestigation(id);
+    if (!investigation) throw new Error('it no longer exists');
+    onLoad(investigation);
+  }, 'Failed to open');
+
+  const handleDelete = (meta: InvestigationMeta) => {
+    if (!confirm(`Delete "${meta.name}"? This cannot be undone.`)) return;
+    run(async () => {
+      await deleteInvestigation(meta.id);
+      if (current?.id === meta.id) onNew();
+      await refresh();
+    }, 'Failed to delete');
+  };
+
+  const handleExport = (meta: InvestigationMeta) => run(async () => {
+    const investigation = await loadInvestigation(meta.id);
+    if (!investigation) throw new Error('it no longer exists');
+    downloadFile(investigationFileName(meta.name), exportInvestigationBundle(investigation), "application/json");
+  }, 'Failed to export');
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+    run(async () => {
+      const investigation = parseInvestigationBundle(await file.text());
+      await saveInvestigation(investigation);
+      await refresh();
+      setMessage({ text: `Imported "${investigation.name}"` });
+    }, `Failed to import ${file.name}`);
+  };
+
+  if (!isInvestigationStorageAvailable()) return null;
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-800 text-sm">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full p-4 flex items-center gap-2 text-slate-400 hover:text-white transition-colors"
+      >
+        <Briefcase className="w-4 h-4 text-slate-500" />
+        <span className="truncate">
+          Investigation: <span className="text-slate-200">{current?.name || 'unsaved'}</span>
+        </span>
+        {expanded ? <ChevronUp className="w-4 h-4 ml-auto shrink-0" /> : <ChevronDown className="w-4 h-4 ml-auto shrink-0" />}
+      </button>
+
+      {expanded && (
+        <div className="px-4 pb-4 space-y-4">
+          <div className="space-y-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Case name"
+              className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs text-white focus:border-primary outline-none"
+            />
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Analyst notes"
+              rows={4}
+              className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs text-white focus:border-primary outline-none resize-y"
+            />
+            <div className="flex items-center gap-3 text-xs">
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={!canSave || isBusy}
+                className="flex items-center gap-1 text-primary hover:text-blue-400 disabled:opacity-40 transition-colors"
+                title={canSave ? undefined : 'Run an analysis first'}
+              >
+                <Save className="w-3.5 h-3.5" /> {current ? 'Save' : 'Save as new case'}
+              </button>
+              {current && (
+                <button type="button" onClick={onNew} className="text-slate-400 hover:text-white transition-colors">
+                  Start new case
+                </button>
+              )}
+              <button type="button" onClick={() => fileRef.current?.click()} className="ml-auto flex items-center gap-1 text-slate-400 hover:text-white transition-colors">
+                <Upload className="w-3.5 h-3.5" /> Import
+              </button>
+              <input ref={fileRef} type="file" accept=".json" onChange={handleImport} className="hidden" />
+            </div>
+            {message && <p className={`text-xs ${message.error ? 'text-red-400' : 'text-emerald-400'}`}>{message.text}</p>}
+          </div>
+
+          <div>
+            <h4 className="text-slate-400 text-xs uppercase tracking-wider font-semibold mb-2">Saved Cases</h4>
+            {saved.length === 0 ? (
+              <div className="text-xs text-slate-500 italic">No saved investigations.</div>
+            ) : (
+              <div className="space-y-1 max-h-[200px] overflow-y-auto pr-1">
+                {saved.map(meta => (
+                  <div
+                    key={meta.id}
+                    className={`flex items-center gap-2 text-xs px-2 py-1 rounded ${meta.id === current?.id ? 'bg-primary/10 border border-primary/30' : 'bg-slate-900/50'}`}
+                  >
+                    <div className="min-w-0">
+                      <div className="text-slate-200 truncate">{meta.name}</div>
+                      <div className="text-[10px] text-slate-500">
+                        {meta.addresses.length} wallets · {meta.chain.toLowerCase()} · {formatDate(meta.updatedAt)}
+                      </div>
+                    </div>
+                    <button type="button" onClick={() => handleLoad(meta.id)} disabled={isBusy} className="ml-auto text-slate-400 hover:text-white" title="Open">
+                      <FolderOpen className="w-3.5 h-3.5" />
+                    </button>
+                    <button type="button" onClick={() => handleExport(meta)} disabled={isBusy} className="text-slate-400 hover:text-white" title="Export bundle">
+                      <Download className="w-3.5 h-3.5" />
+                    </button>
+                    <button type="button" onClick={() => handleDelete(meta)} disabled={isBusy} className="text-slate-500 hover:text-red-400" title="Delete">
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InvestigationPanel;
@@ -0,0 +1,193 @@
+import React, { useRef, useState } from 'react';
+import { Tag, Trash2, Upload, Download, ChevronDown, ChevronUp, Plus } from 'lucide-react';
+import { EntityCategory, EntityLabel, LabelPolicy, LabelRegistry } from '../types';
+import { KNOWN_ENTITY_LABELS } from '../constants';
+import { createLabelRegistry, exportLabelRegistry, normalizeLabelAddress, parseLabelFile } from '../services/labelService';
+import { downloadFile } from '../services/exportService';
+
+interface Props {
+  registry: LabelRegistry;
+  onChange: (registry: LabelRegistry) => void;
+}
+
+const POLICY_OPTIONS: { value: LabelPolicy; label: string }[] = [
+  { value: 'ignore', label: 'Ignore' },
+  { value: 'downweight', label: 'Down-weight' },
+  { value: 'highlight', label: 'Highlight' },
+];
+
+// Labels listed at once; the search box narrows larger registries
+const MAX_LISTED = 50;
+
+const LabelPanel: React.FC<Props> = ({ registry, onChange }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [search, setSearch] = useState('');
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [newAddress, setNewAddress] = useState('');
+  const [newName, setNewName] = useState('');
+  const [newCategory, setNewCategory] = useState<EntityCategory>(EntityCategory.EXCHANGE);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const labels: EntityLabel[] = Object.values(registry.labels);
+  const query = search.trim().toLowerCase();
+  const filtered = labels.filter(l => !query || l.name.toLowerCase().includes(query) || l.address.toLowerCase().includes(query));
+
+  const mergeLabels = (added: EntityLabel[]) => onChange(createLabelRegistry([...labels, ...added], registry.policies));
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+    const result = parseLabelFile(await file.text());
+    if (result.labels.length > 0) mergeLabels(result.labels);
+    setImportMessage(`Imported ${result.labels.length} label${result.labels.length === 1 ? '' : 's'} from ${file.name}`);
+    setImportErrors(result.errors);
+  };
+
+  const handleAdd = () => {
+    if (!newAddress.trim()) return;
+    mergeLabels([{ address: normalizeLabelAddress(newAddress), name: newName.trim() || newAddress.trim().slice(0, 6), category: newCategory }]);
+    setNewAddress('');
+    setNewName('');
+  };
+
+  const handleRemove = (address: string) =>
+    onChange(createLabelRegistry(labels.filter(l => l.address !== address), registry.policies));
+
+  const handlePolicy = (category: EntityCategory, policy: LabelPolicy) =>
+    onChange({ ...registry, policies: { ...registry.policies, [category]: policy } });
+
+  const handleExport = () => downloadFile("nexus_labels.json", exportLabelRegistry(registry), "application/json");
+
+  const handleReset = () => {
+    if (!confirm("Replace all labels and policies with the built-in set?")) return;
+    onChange(createLabelRegistry(KNOWN_ENTITY_LABELS));
+    setImportMessage(null);
+    setImportErrors([]);
+  };
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-800 text-sm">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full p-4 flex items-center gap-2 text-slate-400 hover:text-white transition-colors"
+      >
+        <Tag className="w-4 h-4 text-slate-500" />
+        <span>
+          Entity labels: <span className="font-mono text-slate-200">{labels.length}</span>
+        </span>
+        {expanded ? <ChevronUp className="w-4 h-4 ml-auto" /> : <ChevronDown className="w-4 h-4 ml-auto" />}
+      </button>
+
+      {expanded && (
+        <div className="px-4 pb-4 space-y-4">
+          <div>
+            <h4 className="text-slate-400 text-xs uppercase tracking-wider font-semibold mb-2">Category Policy</h4>
+            <div className="space-y-1">
+              {Object.values(EntityCategory).map(category => (
+                <div key={category} className="flex justify-between items-center text-xs">
+                  <span className="text-slate-300 capitalize">{category.toLowerCase()}</span>
+                  <select
+                    value={registry.policies[category]}
+                    onChange={(e) => handlePolicy(category, e.target.value as LabelPolicy)}
+                    className="bg-slate-800 border border-slate-600 rounded px-2 py-0.5 text-xs text-white focus:border-primary outline-none"
+                  >
+                    {POLICY_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-slate-400 text-xs uppercase tracking-wider font-semibold mb-2">Add Label</h4>
+            <div className="space-y-2">
+              <input
+                type="text"
+                value={newAddress}
+                onChange={(e) => setNewAddress(e.target.value)}
+                placeholder="Address"
+                className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs text-white font-mono focus:border-primary outline-none"
+              />
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  placeholder="Name"
+                  className="flex-1 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs text-white focus:border-primary outline-none"
+                />
+                <select
+                  value={newCategory}
+                  onChange={(e) => setNewCategory(e.target.value as EntityCategory)}
+                  className="bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs text-white focus:border-primary outline-none"
+                >
+                  {Object.values(EntityCategory).map(c => <option key={c} value={c}>{c.toLowerCase()}</option>)}
+                </select>
+                <button
+                  type="button"
+                  onClick={handleAdd}
+                  className="p-1 text-primary hover:text-blue-400 transition-colors"
+                  title="Add label"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center gap-3 text-xs">
+              <button type="button" onClick={() => fileRef.current?.click()} className="flex items-center gap-1 text-slate-400 hover:text-white transition-colors">
+                <Upload className="w-3.5 h-3.5" /> Import JSON / CSV
+              </button>
+              <button type="button" onClick={handleExport} className="flex items-center gap-1 text-slate-400 hover:text-white transition-colors">
+                <Download className="w-3.5 h-3.5" /> Export
+              </button>
+              <button type="button" onClick={handleReset} className="ml-auto text-slate-500 hover:text-red-400 transition-colors">
+                Reset
+              </button>
+              <input ref={fileRef} type="file" accept=".json,.csv,.txt" onChange={handleImport} className="hidden" />
+            </div>
+            <p className="text-[10px] text-slate-500 mt-1">CSV columns: address, name, category, chain (optional).</p>
+            {importMessage && <p className="text-xs text-emerald-400 mt-2">{importMessage}</p>}
+            {importErrors.length > 0 && (
+              <ul className="text-[10px] text-amber-400 mt-1 max-h-[80px] overflow-y-auto">
+                {importErrors.map((err, i) => <li key={i}>{err}</li>)}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search labels"
+              className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs text-white focus:border-primary outline-none mb-2"
+            />
+            <div className="space-y-1 max-h-[200px] overflow-y-auto pr-1">
+              {filtered.slice(0, MAX_LISTED).map(label => (
+                <div key={label.address} className="flex items-center gap-2 text-xs bg-slate-900/50 px-2 py-1 rounded" title={label.address}>
+                  <span className="text-slate-200 truncate">{label.name}</span>
+                  <span className="text-slate-500 lowercase">{label.category}</span>
+                  <span className="font-mono text-slate-500 ml-auto">{label.address.slice(0, 4)}...</span>
+                  <button type="button" onClick={() => handleRemove(label.address)} className="text-slate-500 hover:text-red-400" title="Remove label">
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              {filtered.length > MAX_LISTED && (
+                <div className="text-[10px] text-slate-500 text-center">{filtered.length - MAX_LISTED} more — refine the search</div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LabelPanel;
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Copy, ExternalLink, Loader2, PlusCircle, X } from 'lucide-react';
+import { ChainAdapter, ConnectedPair, Link, Node, ParsedTxInfo } from '../types';
+import { NATIVE_MINT } from '../constants';
+import { formatAmount } from '../services/amountService';
+import { netNativeAmount, txRole } from '../services/expansionService';
+
+export interface InputLink {
+  input: string;
+  link?: Link; // The edge drawn between the two, if any
+  pair?: ConnectedPair; // When the inspected node is itself an input
+}
+
+interface Props {
+  node: Node;
+  transactions: ParsedTxInfo[];
+  inputLinks: InputLink[];
+  adapter: ChainAdapter;
+  // Unset for nodes that can't be expanded (inputs, which are fully fetched already)
+  onExpand?: () => void;
+  expandState: 'idle' | 'loading' | 'done';
+  onClose: () => void;
+}
+
+// Long histories are listed in steps so an input with thousands of txs stays responsive
+const TX_PAGE = 50;
+
+const formatTime = (blockTime: number) =>
+  blockTime ? new Date(blockTime * 1000).toISOString().replace('T', ' ').slice(0, 16) : '—';
+
+const ROLE_STYLES: Record<NonNullable<ReturnType<typeof txRole>>, string> = {
+  sender: 'text-orange-300',
+  recipient: 'text-emerald-300',
+  signer: 'text-rose-300',
+  program: 'text-amber-300',
+  asset: 'text-lime-300',
+};
+
+// Side panel for the clicked node: identity, links to the inputs and every transaction we hold for it
+const NodeInspector: React.FC<Props> = ({ node, transactions, inputLinks, adapter, onExpand, expandState, onClose }) => {
+  const [shown, setShown] = useState(TX_PAGE);
+
+  return (
+    <div className="absolute top-4 right-4 bottom-4 w-80 bg-slate-900/95 backdrop-blur border border-slate-600 rounded-lg shadow-xl flex flex-col text-xs text-slate-300 z-10">
+      <div className="p-3 border-b border-slate-700 flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <div className="font-semibold text-slate-100 truncate">{node.label}</div>
+          <div className="text-[10px] uppercase tracking-wider text-slate-500 mt-0.5">
+            {node.group}{node.entity && ` · ${node.entity.category.toLowerCase()}`}{node.cluster && ` · entity #${node.cluster}`}
+          </div>
+        </div>
+        <button onClick={onClose} className="p-1 text-slate-500 hover:text-white" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-4">
+        <div className="flex items-start gap-1">
+          <span className="font-mono text-[10px] text-blue-300 break-all">{node.id}</span>
+          <button onClick={() => navigator.clipboard?.writeText(node.id)} className="p-0.5 text-slate-500 hover:text-white shrink-0" title="Copy address">
+            <Copy className="w-3 h-3" />
+          </button>
+        </div>
+
+        {onExpand && (
+          <button
+            onClick={onExpand}
+            disabled={expandState !== 'idle'}
+            className="w-full flex items-center justify-center gap-1.5 py-1.5 rounded border border-slate-600 hover:bg-slate-800 disabled:opacity-50 disabled:hover:bg-transparent"
+          >
+            {expandState === 'loading' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <PlusCircle className="w-3.5 h-3.5" />}
+            {expandState === 'done' ? 'Expanded' : expandState === 'loading' ? 'Fetching history…' : 'Expand neighbors'}
+          </button>
+        )}
+
+        <div>
+          <h4 className="text-slate-400 uppercase tracking-wider font-semibold mb-1.5">Links to Inputs ({inputLinks.length})</h4>
+          {inputLinks.length === 0 ? (
+            <div className="text-slate-500 italic">Not linked to any input.</div>
+          ) : (
+            <div className="space-y-1">
+              {inputLinks.map(({ input, link, pair }) => (
+                <div key={input} className="bg-slate-800/50 px-2 py-1 rounded" title={pair?.reason ?? link?.details}>
+                  <div className="flex justify-between items-center">
+                    <span className="font-mono text-blue-300">{input.slice(0, 4)}...{input.slice(-4)}</span>
+                    {pair && <span className="font-mono text-slate-200">{pair.score}</span>}
+                  </div>
+                  <div className="text-[10px] text-slate-500">
+                    {(pair?.type ?? link?.type)?.replace(/_/g, ' ').toLowerCase()}
+                    {link?.volume ? ` · ${formatAmount(link.volume, NATIVE_MINT, adapter.id)}` : ''}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <h4 className="text-slate-400 uppercase tracking-wider font-semibold mb-1.5">Transactions ({transactions.length})</h4>
+          {transactions.length === 0 ? (
+            <div className="text-slate-500 italic">None in the fetched data.</div>
+          ) : (
+            <div className="space-y-0.5">
+              {transactions.slice(0, shown).map(tx => {
+                const role = txRole(tx, node.id);
+                const amount = netNativeAmount(tx, node.id);
+                return (
+                  <a
+                    key={tx.signature}
+                    href={adapter.explorerTxUrl(tx.signature)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1.5 px-1 py-0.5 rounded hover:bg-slate-800 font-mono text-[10px]"
+                  >
+                    <ExternalLink className="w-2.5 h-2.5 shrink-0 text-blue-400" />
+                    <span className="text-blue-400">{tx.signature.slice(0, 8)}..</span>
+                    <span className="text-slate-500">{formatTime(tx.blockTime)}</span>
+                    {role && <span className={ROLE_STYLES[role]}>{role}</span>}
+                    {amount !== 0 && (
+                      <span className={`ml-auto ${amount > 0 ? 'text-emerald-400' : 'text-orange-400'}`}>
+                        {amount > 0 ? '+' : ''}{formatAmount(amount, NATIVE_MINT, adapter.id)}
+                      </span>
+                    )}
+                  </a>
+                );
+              })}
+              {transactions.length > shown && (
+                <button onClick={() => setShown(shown + TX_PAGE)} className="w-full text-center py-1 text-slate-500 hover:text-white">
+                  Show more ({transactions.length - shown} left)
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NodeInspector;
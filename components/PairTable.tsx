@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ConnectedPair } from '../types';
+import EvidenceLedger from './EvidenceLedger';
+
+interface Props {
+  pairs: ConnectedPair[];
+  explorerTxUrl: (signature: string) => string;
+}
+
+type SortKey = 'score' | 'pair' | 'type' | 'evidence';
+
+const PAGE_SIZE = 20;
+
+const pairKey = (pair: ConnectedPair) => `${pair.addressA}-${pair.addressB}`;
+
+const SORTERS: Record<SortKey, (a: ConnectedPair, b: ConnectedPair) => number> = {
+  score: (a, b) => a.breakdown.probability - b.breakdown.probability,
+  pair: (a, b) => a.addressA.localeCompare(b.addressA) || a.addressB.localeCompare(b.addressB),
+  type: (a, b) => a.type.localeCompare(b.type),
+  evidence: (a, b) => a.breakdown.items.length - b.breakdown.items.length,
+};
+
+const COLUMNS: { key: SortKey; label: string; className: string }[] = [
+  { key: 'pair', label: 'Pair', className: 'text-left' },
+  { key: 'type', label: 'Strongest', className: 'text-left' },
+  { key: 'evidence', label: 'Ev.', className: 'text-right' },
+  { key: 'score', label: 'Score', className: 'text-right' },
+];
+
+// Every linked pair, sortable and paged so sybil sets with thousands of pairs stay usable
+const PairTable: React.FC<Props> = ({ pairs, explorerTxUrl }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('score');
+  const [descending, setDescending] = useState(true);
+  const [page, setPage] = useState(0);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  // New results start over
+  useEffect(() => {
+    setPage(0);
+    setExpanded(null);
+  }, [pairs]);
+
+  const sorted = [...pairs].sort((a, b) => (descending ? -1 : 1) * SORTERS[sortKey](a, b));
+  const pageCount = Math.max(1, Math.ceil(sorted.length / PAGE_SIZE));
+  const visible = sorted.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  const sortBy = (key: SortKey) => {
+    if (key === sortKey) {
+      setDescending(!descending);
+    } else {
+      setSortKey(key);
+      setDescending(key === 'score' || key === 'evidence'); // Strongest first, names A-Z
+    }
+    setPage(0);
+  };
+
+  return (
+    <div>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-slate-500">
+            {COLUMNS.map(col => (
+              <th key={col.key} className={`font-normal pb-1 ${col.className}`}>
+                <button
+                  type="button"
+                  onClick={() => sortBy(col.key)}
+                  className={`inline-flex items-center gap-0.5 hover:text-white transition-colors ${sortKey === col.key ? 'text-slate-300' : ''}`}
+                >
+                  {col.label}
+                  {sortKey === col.key && (descending ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {visible.map(pair => {
+            const key = pairKey(pair);
+            return (
+              <React.Fragment key={key}>
+                <tr
+                  onClick={() => setExpanded(expanded === key ? null : key)}
+                  className="border-t border-slate-800 hover:bg-slate-900/50 cursor-pointer"
+                  title={pair.reason}
+                >
+                  <td className="py-1.5 font-mono text-blue-300">{pair.addressA.slice(0, 4)}.. ↔ {pair.addressB.slice(0, 4)}..</td>
+                  <td className="py-1.5 text-[10px] text-slate-500 font-bold tracking-wider">{pair.type.replace(/_/g, ' ')}</td>
+                  <td className="py-1.5 text-right text-slate-400">{pair.breakdown.items.length}</td>
+                  <td className="py-1.5 text-right font-mono text-slate-300">{pair.score}</td>
+                </tr>
+                {expanded === key && (
+                  <tr>
+                    <td colSpan={COLUMNS.length} className="pb-2">
+                      <p className="text-slate-400 mt-1">{pair.reason}</p>
+                      <EvidenceLedger pair={pair} explorerTxUrl={explorerTxUrl} />
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-between mt-2 text-xs text-slate-500">
+          <span>{page * PAGE_SIZE + 1}–{Math.min((page + 1) * PAGE_SIZE, sorted.length)} of {sorted.length}</span>
+          <div className="flex items-center gap-1">
+            <button type="button" onClick={() => setPage(page - 1)} disabled={page === 0} className="p-1 hover:text-white disabled:opacity-30">
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span>{page + 1}/{pageCount}</span>
+            <button type="button" onClick={() => setPage(page + 1)} disabled={page >= pageCount - 1} className="p-1 hover:text-white disabled:opacity-30">
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PairTable;
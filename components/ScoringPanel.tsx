@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, ChevronDown, ChevronUp, Save, Trash2 } from 'lucide-react';
+import { ConnectionType, ScoringProfile } from '../types';
+import { DEFAULT_SCORING_PROFILE, loadScoringProfiles, normalizeProfile, saveScoringProfiles } from '../services/scoringService';
+
+interface Props {
+  profile: ScoringProfile; // The working profile the analysis runs with
+  onChange: (profile: ScoringProfile) => void;
+}
+
+const ScoringPanel: React.FC<Props> = ({ profile, onChange }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [profiles, setProfiles] = useState<ScoringProfile[]>(loadScoringProfiles);
+
+  const saved = profiles.find(p => p.name === profile.name);
+  const isDirty = !saved || JSON.stringify(saved) !== JSON.stringify(profile);
+
+  const handleWeight = (type: ConnectionType, percent: number) =>
+    onChange(normalizeProfile({ ...profile, weights: { ...profile.weights, [type]: percent / 100 } }));
+
+  const handleSelect = (name: string) => {
+    const next = profiles.find(p => p.name === name);
+    if (next) onChange(next);
+  };
+
+  const persist = (next: ScoringProfile[]) => {
+    setProfiles(next);
+    saveScoringProfiles(next);
+  };
+
+  const handleSave = () => {
+    const suggested = profile.name === DEFAULT_SCORING_PROFILE.name ? '' : profile.name;
+    const name = prompt("Save scoring profile as:", suggested)?.trim();
+    if (!name) return;
+    if (name === DEFAULT_SCORING_PROFILE.name) {
+      alert("The built-in Default profile can't be overwritten.");
+      return;
+    }
+    const next = { ...profile, name };
+    persist([...profiles.filter(p => p.name !== name), next]);
+    onChange(next);
+  };
+
+  const handleDelete = () => {
+    if (profile.name === DEFAULT_SCORING_PROFILE.name || !confirm(`Delete scoring profile "${profile.name}"?`)) return;
+    persist(profiles.filter(p => p.name !== profile.name));
+    onChange(DEFAULT_SCORING_PROFILE);
+  };
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-800 text-sm">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full p-4 flex items-center gap-2 text-slate-400 hover:text-white transition-colors"
+      >
+        <SlidersHorizontal className="w-4 h-4 text-slate-500" />
+        <span>
+          Scoring: <span className="text-slate-200">{profile.name}</span>
+          {isDirty && <span className="text-amber-400"> (modified)</span>}
+        </span>
+        {expanded ? <ChevronUp className="w-4 h-4 ml-auto" /> : <ChevronDown className="w-4 h-4 ml-auto" />}
+      </button>
+
+      {expanded && (
+        <div className="px-4 pb-4 space-y-4">
+          <div className="flex items-center gap-2">
+            <select
+              value={saved ? profile.name : ''}
+              onChange={(e) => handleSelect(e.target.value)}
+              className="flex-1 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs text-white focus:border-primary outline-none"
+            >
+              {!saved && <option value="">{profile.name} (unsaved)</option>}
+              {profiles.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+            </select>
+            <button type="button" onClick={handleSave} className="p-1 text-slate-400 hover:text-white transition-colors" title="Save profile">
+              <Save className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={profile.name === DEFAULT_SCORING_PROFILE.name}
+              className="p-1 text-slate-400 hover:text-red-400 disabled:opacity-40 disabled:hover:text-slate-400 transition-colors"
+              title="Delete profile"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div>
+            <h4 className="text-slate-400 text-xs uppercase tracking-wider font-semibold mb-2">Evidence Weights</h4>
+            <div className="space-y-1">
+              {Object.values(ConnectionType).map(type => (
+                <div key={type} className="flex items-center gap-2 text-xs">
+                  <span className="text-slate-300 w-36 shrink-0">{type.replace(/_/g, ' ').toLowerCase()}</span>
+                  <input
+                    type="range"
+                    min="0"
+                    max="100"
+                    value={Math.round(profile.weights[type] * 100)}
+                    onChange={(e) => handleWeight(type, Number(e.target.value))}
+                    className="flex-1 accent-primary h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer"
+                  />
+                  <span className="font-mono text-slate-400 w-9 text-right">{Math.round(profile.weights[type] * 100)}%</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Diminishing Returns</label>
+            <div className="flex items-center gap-2 text-xs">
+              <input
+                type="range"
+                min="0"
+                max="100"
+                value={Math.round(profile.diminishingFactor * 100)}
+                onChange={(e) => onChange(normalizeProfile({ ...profile, diminishingFactor: Number(e.target.value) / 100 }))}
+                className="flex-1 accent-primary h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer"
+              />
+              <span className="font-mono text-slate-400 w-9 text-right">{Math.round(profile.diminishingFactor * 100)}%</span>
+            </div>
+            <p className="text-[10px] text-slate-500 mt-1">Each further piece of evidence of the same type counts this much of the previous one.</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScoringPanel;
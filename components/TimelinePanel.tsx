@@ -0,0 +1,144 @@
+import React, { useEffect, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { Clock, X } from 'lucide-react';
+import { ParsedTxInfo, TimeRange } from '../types';
+import { COLORS } from '../constants';
+import { buildTemporalProfile } from '../services/temporalService';
+
+interface Props {
+  histories: { [address: string]: ParsedTxInfo[] };
+  range: TimeRange | null;
+  onRangeChange: (range: TimeRange | null) => void;
+}
+
+const LANE_HEIGHT = 22;
+const LABEL_WIDTH = 80;
+const HEAT_WIDTH = 24 * 3; // One 3px cell per UTC hour
+const AXIS_HEIGHT = 20;
+
+const formatDate = (blockTime: number) => new Date(blockTime * 1000).toISOString().slice(0, 16).replace('T', ' ');
+
+// One lane per input wallet; brushing a window narrows the analysis to it
+const TimelinePanel: React.FC<Props> = ({ histories, range, onRangeChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(800);
+  // The brush outlives renders, so it reads the latest callback rather than the one it was created with
+  const onRangeChangeRef = useRef(onRangeChange);
+  onRangeChangeRef.current = onRangeChange;
+
+  useEffect(() => {
+    const updateWidth = () => {
+      if (containerRef.current) setWidth(containerRef.current.clientWidth);
+    };
+    window.addEventListener('resize', updateWidth);
+    updateWidth();
+    return () => window.removeEventListener('resize', updateWidth);
+  }, []);
+
+  const addresses = Object.keys(histories);
+  const height = addresses.length * LANE_HEIGHT + AXIS_HEIGHT;
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+
+    const times = addresses.flatMap(addr => histories[addr].map(tx => tx.blockTime)).filter(t => t > 0);
+    if (times.length === 0) return;
+    const [min, max] = d3.extent(times) as [number, number];
+    const x = d3.scaleTime()
+      .domain([new Date(min * 1000), new Date((max > min ? max : min + 3600) * 1000)])
+      .range([LABEL_WIDTH, width - HEAT_WIDTH - 8]);
+    const lanesBottom = addresses.length * LANE_HEIGHT;
+
+    svg.append("g")
+      .attr("transform", `translate(0,${lanesBottom})`)
+      .attr("color", "#64748b")
+      .call(d3.axisBottom(x).ticks(Math.max(2, Math.floor(width / 120))));
+
+    addresses.forEach((addr, i) => {
+      const lane = svg.append("g").attr("transform", `translate(0,${i * LANE_HEIGHT})`);
+      lane.append("line")
+        .attr("x1", LABEL_WIDTH).attr("x2", width - HEAT_WIDTH - 8)
+        .attr("y1", LANE_HEIGHT / 2).attr("y2", LANE_HEIGHT / 2)
+        .attr("stroke", "#1e293b");
+      lane.append("text")
+        .attr("x", 4).attr("y", LANE_HEIGHT / 2).attr("dy", "0.35em")
+        .attr("fill", "#93c5fd").attr("font-size", 10).attr("font-family", "monospace")
+        .text(`${addr.slice(0, 4)}...${addr.slice(-4)}`)
+        .append("title").text(addr);
+
+      lane.selectAll("circle")
+        .data(histories[addr].filter(tx => tx.blockTime > 0))
+        .join("circle")
+        .attr("cx", tx => x(new Date(tx.blockTime * 1000)))
+        .attr("cy", LANE_HEIGHT / 2)
+        .attr("r", 2.5)
+        .attr("fill", COLORS.input)
+        .attr("fill-opacity", 0.7)
+        .append("title").text(tx => `${tx.signature.slice(0, 12)}... · ${formatDate(tx.blockTime)} UTC`);
+
+      // Hour-of-day heat strip: when in the (UTC) day this wallet is active
+      const { hourOfDay } = buildTemporalProfile(histories[addr]);
+      const peak = Math.max(...hourOfDay, 1);
+      lane.selectAll("rect")
+        .data(hourOfDay)
+        .join("rect")
+        .attr("x", (_, h) => width - HEAT_WIDTH + h * 3)
+        .attr("y", 5)
+        .attr("width", 3)
+        .attr("height", LANE_HEIGHT - 10)
+        .attr("fill", COLORS.linkTemporal)
+        .attr("fill-opacity", count => 0.08 + 0.92 * count / peak)
+        .append("title").text((count, h) => `${String(h).padStart(2, '0')}:00 UTC · ${count} txs`);
+    });
+
+    const brush = d3.brushX()
+      .extent([[LABEL_WIDTH, 0], [width - HEAT_WIDTH - 8, lanesBottom]])
+      .on("end", (event) => {
+        if (!event.sourceEvent) return; // Programmatic moves (restoring `range`) aren't user input
+        if (!event.selection) {
+          onRangeChangeRef.current(null);
+          return;
+        }
+        const [x0, x1] = event.selection as [number, number];
+        onRangeChangeRef.current({
+          from: Math.floor(x.invert(x0).getTime() / 1000),
+          to: Math.ceil(x.invert(x1).getTime() / 1000)
+        });
+      });
+    const brushG = svg.append("g").call(brush);
+    if (range) {
+      brushG.call(brush.move, [x(new Date(range.from * 1000)), x(new Date(range.to * 1000))]);
+    }
+  }, [histories, range, width]);
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-800 text-sm">
+      <div className="px-4 pt-3 pb-1 flex items-center gap-2 text-slate-400">
+        <Clock className="w-4 h-4 text-slate-500" />
+        <span>Activity Timeline</span>
+        <span className="text-xs text-slate-500">
+          {range ? `${formatDate(range.from)} → ${formatDate(range.to)} UTC` : 'drag across the lanes to narrow the analysis'}
+        </span>
+        {range && (
+          <button
+            type="button"
+            onClick={() => onRangeChange(null)}
+            className="ml-auto flex items-center gap-1 text-xs text-slate-400 hover:text-white transition-colors"
+          >
+            <X className="w-3.5 h-3.5" /> Clear
+          </button>
+        )}
+      </div>
+      <div className="px-2 pb-2">
+        <div ref={containerRef} className="max-h-[400px] overflow-y-auto">
+          <svg ref={svgRef} width={width} height={height} className="block" />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimelinePanel;
@@ -1,3 +1,5 @@
+import { AnalysisConfig, ChainId, ConnectionType, EntityCategory, EntityLabel } from './types';
+
 
 export const RPC_ENDPOINTS = [
   'https://solana-rpc.publicnode.com',
@@ -8,22 +10,234 @@ export const RPC_ENDPOINTS = [
 
 export const SOLANA_RPC_ENDPOINT = RPC_ENDPOINTS[0];
 
+// TransferRecord.mint for the chain's native coin (SOL / ETH / BTC)
+export const NATIVE_MINT = 'native';
+
+export const NATIVE_SYMBOLS: Record<ChainId, string> = {
+  [ChainId.SOLANA]: 'SOL',
+  [ChainId.ETHEREUM]: 'ETH',
+  [ChainId.BASE]: 'ETH',
+  [ChainId.BITCOIN]: 'BTC',
+};
+
+// EVM JSON-RPC endpoints. Setting EVM_RPC_URL (e.g. a local node or stand-in) overrides these for every EVM chain.
+export const ETHEREUM_RPC_ENDPOINTS = [
+  'https://ethereum-rpc.publicnode.com',
+  'https://rpc.ankr.com/eth',
+  'https://cloudflare-eth.com',
+];
+
+export const BASE_RPC_ENDPOINTS = [
+  'https://base-rpc.publicnode.com',
+  'https://mainnet.base.org',
+];
+
+// Esplora REST API base URLs. Setting ESPLORA_API_URL (e.g. a local fixture server) overrides these.
+export const ESPLORA_API_ENDPOINTS = [
+  'https://blockstream.info/api',
+  'https://mempool.space/api',
+];
+
+// Outputs that are a multiple of this (0.001 BTC) look like payments rather than change
+export const ROUND_AMOUNT_SATS = 100_000;
+
+// Block window searched with eth_getLogs / trace_filter (public nodes reject very wide ranges)
+export const EVM_LOG_BLOCK_RANGE = 5000;
+
+// Log/trace windows paged back per history fetch, ~100k blocks (two weeks on Ethereum, two days on Base).
+// Older history is left out and the fetch reported incomplete.
+export const EVM_MAX_BLOCK_WINDOWS = 20;
+
+// Recent blocks scanned for native transfers when the node has no trace_filter support
+export const EVM_FALLBACK_BLOCK_SCAN = 200;
+
+// keccak256("Transfer(address,address,uint256)") - shared by ERC-20 and ERC-721
+export const ERC20_TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+// Selector of ERC-20 decimals()
+export const ERC20_DECIMALS_SELECTOR = '0x313ce567';
+
 // Limits to prevent rate-limiting on public RPCs during demo
 // We increase this slightly as better RPCs can handle it, but keep it safe.
 export const MAX_TX_FETCH = 100; 
 
+// Hard stop for "full history" crawls so a busy wallet can't page forever
+export const FULL_HISTORY_MAX_TX = 5000;
+
+// Settings for runs without the form (command line, HTTP API); the form starts from the same values
+export const DEFAULT_ANALYSIS_CONFIG: AnalysisConfig = {
+  maxTransactions: 50,
+  timeWindowSeconds: 300,
+  includePrograms: true,
+  analyzeFunding: true,
+};
+
+// Input wallets per investigation; the first few are entered one by one, larger sets in bulk
+export const MAX_INPUT_ADDRESSES = 500;
+export const MAX_ADDRESS_FIELDS = 5;
+
+// Input histories fetched side by side; public RPCs rate-limit beyond a handful
+export const HISTORY_FETCH_CONCURRENCY = 3;
+
+// Local HTTP API: analyses run at once (each already fetches HISTORY_FETCH_CONCURRENCY wallets side
+// by side), jobs waiting behind them before submissions are refused, and how long results are kept
+export const API_DEFAULT_PORT = 8787;
+export const API_JOB_CONCURRENCY = 1;
+export const API_MAX_QUEUED_JOBS = 20;
+export const API_JOB_RETENTION_MS = 60 * 60 * 1000;
+
+// Strongest pairs sent to the AI; a sybil set of hundreds would blow past the prompt size
+export const AI_PROMPT_MAX_PAIRS = 50;
+
+// Transactions fetched per intermediary when tracing multi-hop flows
+export const INTERMEDIARY_TX_LIMIT = 100;
+
+// Counterparties added to the graph when a node is expanded from the inspector, busiest first
+export const EXPANSION_MAX_NEIGHBORS = 30;
+
+// Keeps the evidence list readable when two inputs are linked through many routes
+export const MAX_PATHS_PER_PAIR = 3;
+
+// Shared counterparties / hubs and time proximity: each input (or interaction) is paired with at most this many
+// others that reached the same entity right after it, so a counterparty of hundreds of inputs doesn't yield
+// pairs by the ten thousand
+export const HUB_PAIR_NEIGHBORS = 10;
+
+// Funding-source analysis: how many of a wallet's oldest txs are inspected,
+// and how many signature pages may be walked to reach them
+export const FUNDING_TX_COUNT = 5;
+export const FUNDING_MAX_SIGNATURE_PAGES = 50;
+
+// Amount matching: B's receipt may be up to this fraction below A's send (fees, slippage)
+export const AMOUNT_MATCH_TOLERANCE = 0.02;
+
+// Peel chains: each hop forwards the bulk and peels off at most this fraction, for at least PEEL_MIN_HOPS hops
+export const PEEL_MAX_FRACTION = 0.2;
+export const PEEL_MIN_HOPS = 3;
+
+// Shared assets: stablecoins and wrapped native coins say nothing about common ownership
+export const UBIQUITOUS_MINTS = [
+  'So11111111111111111111111111111111111111112', // Wrapped SOL
+  'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // USDC (Solana)
+  'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', // USDT (Solana)
+  '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', // USDC (Ethereum)
+  '0xdac17f958d2ee523a2206206994597c13d831ec7', // USDT (Ethereum)
+  '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2', // WETH (Ethereum)
+  '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913', // USDC (Base)
+  '0x4200000000000000000000000000000000000006', // WETH (Base)
+];
+
+// Assets whose rarity (inputs / all wallets seen with it) falls below this are too common to link on
+export const SHARED_ASSET_MIN_RARITY = 0.1;
+
+// Score multiplier for evidence that passes through a "downweight" labelled entity
+export const LABEL_DOWNWEIGHT_FACTOR = 0.3;
+
+// Entity clustering: pairs scoring at least CLUSTER_CORE_SCORE are merged outright;
+// pairs from CLUSTER_MIN_SCORE up feed community detection
+export const CLUSTER_CORE_SCORE = 50;
+export const CLUSTER_MIN_SCORE = 15;
+
+// Temporal fingerprinting: a gap this long ends an active period (a "dormancy"),
+// and two wallets waking up within ACTIVATION_WINDOW_SECONDS of each other count as a shared activation
+export const DORMANCY_GAP_SECONDS = 7 * 86400;
+export const ACTIVATION_WINDOW_SECONDS = 86400;
+
+// Wallets with fewer txs than this have histograms too sparse to compare
+export const TEMPORAL_MIN_TX = 10;
+
+// Histogram similarity two unrelated wallets in one time zone reach anyway; only the excess counts
+export const TEMPORAL_BASELINE_SIMILARITY = 0.6;
+
+// Weakest combined temporal similarity still recorded as evidence
+export const TEMPORAL_MIN_STRENGTH = 0.3;
+
+// Behavioral fingerprinting: minimum txs per wallet, the weakest combined similarity
+// still recorded, and the per-feature similarity that counts as a match in explanations
+export const BEHAVIOR_MIN_TX = 5;
+export const BEHAVIOR_MIN_STRENGTH = 0.5;
+export const BEHAVIOR_FEATURE_MATCH = 0.8;
+
+export const COMPUTE_BUDGET_PROGRAM_ID = 'ComputeBudget111111111111111111111111111111';
+
+// Metaplex Token Metadata program, which holds each Solana NFT's verified collection
+export const TOKEN_METADATA_PROGRAM_ID = 'metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s';
+
+// getSignaturesForAddress returns at most 1000 signatures per call
+export const SIGNATURE_PAGE_SIZE = 1000;
+
 // Known system programs to ignore in "Shared Program" analysis to reduce noise
 export const IGNORED_PROGRAMS = [
   '11111111111111111111111111111111', // System Program
   'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA', // Token Program
-  'ComputeBudget111111111111111111111111111111', // Compute Budget
+  COMPUTE_BUDGET_PROGRAM_ID, // Compute Budget
   'MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcQb', // Memo
 ];
 
+// Seed entries for the label registry; users add their own via JSON/CSV import or the Labels panel
+export const KNOWN_ENTITY_LABELS: EntityLabel[] = [
+  { address: '5tzFkiKscXHK5ZXCGbXZxdw7gTjjD1mBwuoFbhUvuAi9', name: 'Binance Hot Wallet', category: EntityCategory.EXCHANGE, chain: ChainId.SOLANA },
+  { address: 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4', name: 'Jupiter Aggregator v6', category: EntityCategory.DEX, chain: ChainId.SOLANA },
+  { address: '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8', name: 'Raydium AMM v4', category: EntityCategory.DEX, chain: ChainId.SOLANA },
+  { address: 'wormDTUJ6AWPNvk59vGQbDvGJmqbDTdgWgAqcLBCgUb', name: 'Wormhole Token Bridge', category: EntityCategory.BRIDGE, chain: ChainId.SOLANA },
+  { address: '0x28c6c06298d514db089934071355e5743bf21d60', name: 'Binance 14', category: EntityCategory.EXCHANGE, chain: ChainId.ETHEREUM },
+  { address: '0x7a250d5630b4cf539739df2c5dacb4c659f2488d', name: 'Uniswap V2 Router', category: EntityCategory.DEX, chain: ChainId.ETHEREUM },
+  { address: '0x3fc91a3afd70395cd496c647d5a6cc9d4b2b7fad', name: 'Uniswap Universal Router', category: EntityCategory.DEX },
+  { address: '0x12d66f87a04a9e220743712ce6d9bb1b5616b8fc', name: 'Tornado Cash 0.1 ETH', category: EntityCategory.MIXER, chain: ChainId.ETHEREUM },
+  { address: '0x47ce0c6ed5b0ce3d3a51fdb1c52dc66a7c3c2936', name: 'Tornado Cash 1 ETH', category: EntityCategory.MIXER, chain: ChainId.ETHEREUM },
+  { address: '0x910cbd523d972eb0a6f4cae4618ad62622b39dbf', name: 'Tornado Cash 10 ETH', category: EntityCategory.MIXER, chain: ChainId.ETHEREUM },
+];
+
+// Hull colours for entity clusters, cycled by cluster id
+export const CLUSTER_COLORS = ['#3b82f6', '#f43f5e', '#22c55e', '#eab308', '#8b5cf6', '#14b8a6', '#f97316', '#ec4899'];
+
+export const clusterColor = (id: number) => CLUSTER_COLORS[(id - 1) % CLUSTER_COLORS.length];
+
+// Links that follow value from source to target; every other link type is symmetric
+export const DIRECTED_CONNECTION_TYPES = [ConnectionType.MULTI_HOP, ConnectionType.COMMON_FUNDER, ConnectionType.PEEL_CHAIN];
+
+// Graphs with more nodes are drawn on a canvas; one SVG element per node and link crawls past a few hundred
+export const CANVAS_NODE_THRESHOLD = 300;
+
 export const COLORS = {
   input: '#3b82f6', // Blue
   counterparty: '#10b981', // Emerald
   program: '#f59e0b', // Amber
+  change: '#06b6d4', // Cyan
+  funder: '#a855f7', // Purple
+  asset: '#84cc16', // Lime
+  highlight: '#ef4444', // Red ring around flagged (highlight-policy) entities
+  selected: '#facc15', // Yellow ring around the node open in the inspector
+  searchMatch: '#38bdf8', // Sky ring around nodes matching the graph search
   linkDirect: '#ef4444', // Red (High interest)
+  linkCoSpend: '#22d3ee', // Cyan (Common-input ownership)
+  linkCoSign: '#e11d48', // Rose (Co-signed / fee-sponsored)
+  linkMultiHop: '#fb923c', // Orange (Confirmed multi-hop flow)
+  linkFunder: '#c084fc', // Light purple (Funding source)
+  linkAmountMatch: '#facc15', // Yellow (Matching amounts)
+  linkPeelChain: '#f472b6', // Pink (Peel chain)
+  linkSharedAsset: '#a3e635', // Lime (Shared token / collection)
+  linkTemporal: '#818cf8', // Indigo (Same activity schedule)
+  linkBehavior: '#2dd4bf', // Teal (Same fees / instruction patterns)
   linkShared: '#64748b', // Slate (Background)
 };
+
+// Link colour per connection type; shared counterparties and programs stay in the background
+export const LINK_COLORS: Partial<Record<ConnectionType, string>> = {
+  [ConnectionType.DIRECT]: COLORS.linkDirect,
+  [ConnectionType.MIDDLEMAN]: '#f59e0b', // Amber for Middleman
+  [ConnectionType.TIME_PROXIMATE]: '#d946ef', // Magenta for Time
+  [ConnectionType.CO_SPEND]: COLORS.linkCoSpend,
+  [ConnectionType.CO_SIGN]: COLORS.linkCoSign,
+  [ConnectionType.MULTI_HOP]: COLORS.linkMultiHop,
+  [ConnectionType.COMMON_FUNDER]: COLORS.linkFunder,
+  [ConnectionType.AMOUNT_MATCH]: COLORS.linkAmountMatch,
+  [ConnectionType.PEEL_CHAIN]: COLORS.linkPeelChain,
+  [ConnectionType.SHARED_ASSET]: COLORS.linkSharedAsset,
+  [ConnectionType.TEMPORAL_FINGERPRINT]: COLORS.linkTemporal,
+  [ConnectionType.BEHAVIOR_FINGERPRINT]: COLORS.linkBehavior,
+};
+
+export const linkColor = (type: ConnectionType) => LINK_COLORS[type] ?? COLORS.linkShared;
+
+// "Focus on pair" keeps nodes on a path of at most this many links between the two inputs
+export const FOCUS_MAX_HOPS = 4;
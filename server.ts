@@ -0,0 +1,174 @@
+/**
+ * Local HTTP API for other tools: submit an analysis, poll it, fetch the result or cancel it.
+ * Jobs run through a bounded queue (services/jobQueueService.ts). Build with `npm run build:node`,
+ * then `node dist/node/nexus-server.js --help`.
+ */
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { parseArgs } from 'node:util';
+import { AnalysisConfig, ChainId } from './types';
+import { API_DEFAULT_PORT, API_JOB_CONCURRENCY, API_MAX_QUEUED_JOBS, DEFAULT_ANALYSIS_CONFIG, MAX_INPUT_ADDRESSES } from './constants';
+import { getChainAdapter } from './services/chainService';
+import { parseAddressList } from './services/addressListService';
+import { createJobQueue, JobQueue, QueueFullError } from './services/jobQueueService';
+
+const USAGE = `Usage: nexus-server [options]
+
+Serves the analysis over HTTP on localhost:
+  POST   /jobs              { "chain": "SOLANA", "addresses": [...], "config": {...} } -> 202 job
+  GET    /jobs              All jobs still held
+  GET    /jobs/<id>         Status and progress
+  GET    /jobs/<id>/result  { "summary": ..., "graph": ... } once done
+  DELETE /jobs/<id>         Cancel
+
+Options
+  -p, --port <n>             Port (default ${API_DEFAULT_PORT})
+      --host <host>          Interface to listen on (default 127.0.0.1)
+      --concurrency <n>      Jobs analysed at once (default ${API_JOB_CONCURRENCY})
+      --max-queued <n>       Waiting jobs before new ones are refused with 503 (default ${API_MAX_QUEUED_JOBS})
+  -h, --help                 Show this help`;
+
+// Request bodies are addresses and a few settings; anything bigger is a mistake
+const MAX_BODY_BYTES = 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const send = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body) + '\n');
+};
+
+const readJson = async (req: IncomingMessage): Promise<unknown> => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, `Request body over ${MAX_BODY_BYTES} bytes`);
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+};
+
+// Which AnalysisConfig fields a client may set, and how each is checked
+const CONFIG_FIELDS: Record<keyof AnalysisConfig, { type: 'number' | 'boolean'; min?: number }> = {
+  maxTransactions: { type: 'number', min: 1 },
+  timeWindowSeconds: { type: 'number', min: 0 },
+  includePrograms: { type: 'boolean' },
+  fromTime: { type: 'number', min: 0 },
+  toTime: { type: 'number', min: 0 },
+  fullHistory: { type: 'boolean' },
+  traceIntermediaries: { type: 'boolean' },
+  traceDepth: { type: 'number', min: 1 },
+  traceBudget: { type: 'number', min: 1 },
+  analyzeFunding: { type: 'boolean' },
+};
+
+// Fields left out keep DEFAULT_ANALYSIS_CONFIG's values
+const parseConfig = (value: unknown): AnalysisConfig => {
+  if (value === undefined) return { ...DEFAULT_ANALYSIS_CONFIG };
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new HttpError(400, '"config" must be an object');
+  const config: Record<string, unknown> = { ...DEFAULT_ANALYSIS_CONFIG };
+  Object.entries(value).forEach(([key, field]) => {
+    const rule = CONFIG_FIELDS[key as keyof AnalysisConfig];
+    if (!rule) throw new HttpError(400, `Unknown config field "${key}"`);
+    if (typeof field !== rule.type || (rule.type === 'number' && (!Number.isFinite(field) || (field as number) < (rule.min ?? 0)))) {
+      throw new HttpError(400, `config.${key} must be ${rule.type === 'number' ? `a number >= ${rule.min ?? 0}` : 'true or false'}`);
+    }
+    config[key] = field;
+  });
+  return config as unknown as AnalysisConfig;
+};
+
+const parseSubmission = (body: unknown) => {
+  if (typeof body !== 'object' || body === null) throw new HttpError(400, 'Expected a JSON object');
+  const { chain = ChainId.SOLANA, addresses, config } = body as { chain?: unknown; addresses?: unknown; config?: unknown };
+  const chainId = typeof chain === 'string' ? Object.values(ChainId).find(id => id === chain.toUpperCase()) : undefined;
+  if (!chainId) throw new HttpError(400, `"chain" must be one of ${Object.values(ChainId).join(', ')}`);
+  if (!Array.isArray(addresses) || addresses.some(a => typeof a !== 'string')) {
+    throw new HttpError(400, '"addresses" must be an array of strings');
+  }
+
+  // Same validation (and de-duplication) as the app's bulk input
+  const parsed = parseAddressList(addresses.join('\n'), getChainAdapter(chainId));
+  if (parsed.errors.length > 0) {
+    throw new HttpError(400, parsed.errors.map(e => `${e.value}: ${e.message}`).join('; '));
+  }
+  if (parsed.addresses.length < 2) throw new HttpError(400, 'At least two addresses are needed');
+  if (parsed.addresses.length > MAX_INPUT_ADDRESSES) throw new HttpError(400, `At most ${MAX_INPUT_ADDRESSES} addresses per job`);
+
+  return { chain: chainId, addresses: parsed.addresses, config: parseConfig(config) };
+};
+
+const handle = async (queue: JobQueue, req: IncomingMessage, res: ServerResponse) => {
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname.replace(/\/+$/, '');
+  const [, collection, id, sub, ...rest] = path.split('/');
+  if (collection !== 'jobs' || rest.length > 0 || (sub !== undefined && sub !== 'result')) {
+    throw new HttpError(404, `No route for ${path || '/'}`);
+  }
+  const allow = (...methods: string[]) => {
+    if (!methods.includes(req.method ?? '')) throw new HttpError(405, `Use ${methods.join(' or ')} here`);
+  };
+
+  if (!id) {
+    allow('GET', 'POST');
+    if (req.method === 'GET') return send(res, 200, queue.list());
+    const job = queue.submit(parseSubmission(await readJson(req)));
+    return send(res, 202, job, { Location: `/jobs/${job.id}` });
+  }
+
+  const job = queue.get(id);
+  if (!job) throw new HttpError(404, `No job ${id}`);
+
+  if (sub === 'result') {
+    allow('GET');
+    const result = queue.result(id);
+    if (!result) throw new HttpError(409, `Job is ${job.status}${job.error ? `: ${job.error}` : ''}`);
+    return send(res, 200, result);
+  }
+
+  allow('GET', 'DELETE');
+  send(res, 200, req.method === 'DELETE' ? queue.cancel(id) : job);
+};
+
+const main = () => {
+  const { values: flags } = parseArgs({
+    options: {
+      port: { type: 'string', short: 'p', default: String(API_DEFAULT_PORT) },
+      host: { type: 'string', default: '127.0.0.1' },
+      concurrency: { type: 'string', default: String(API_JOB_CONCURRENCY) },
+      'max-queued': { type: 'string', default: String(API_MAX_QUEUED_JOBS) },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  if (flags.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const [port, concurrency, maxQueued] = [flags.port, flags.concurrency, flags['max-queued']].map(Number);
+  if (![port, concurrency, maxQueued].every(n => Number.isInteger(n) && n >= 0) || concurrency < 1) {
+    console.error(`--port, --concurrency and --max-queued must be whole numbers (concurrency at least 1)\n\n${USAGE}`);
+    process.exitCode = 2;
+    return;
+  }
+
+  const queue = createJobQueue({ concurrency, maxQueued });
+  const server = createServer((req, res) => {
+    handle(queue, req, res).catch(error => {
+      if (error instanceof HttpError) return send(res, error.status, { error: error.message });
+      if (error instanceof QueueFullError) return send(res, 503, { error: error.message }, { 'Retry-After': '30' });
+      console.error(error);
+      send(res, 500, { error: 'Internal error' });
+    });
+  });
+  server.listen(port, flags.host, () => console.error(`Listening on http://${flags.host}:${port} (${concurrency} job(s) at a time)`));
+};
+
+main();
@@ -0,0 +1,56 @@
+import { MAX_INPUT_ADDRESSES } from '../constants';
+import { ChainAdapter } from '../types';
+
+export interface AddressListError {
+  line: number; // 1-based
+  value: string;
+  message: string;
+}
+
+export interface ParsedAddressList {
+  addresses: string[]; // Normalised, deduplicated, in input order
+  errors: AddressListError[];
+  duplicates: number;
+}
+
+// Commas, semicolons, tabs or whitespace; quotes around CSV cells are dropped
+const splitCells = (line: string) =>
+  line.split(/[,;\t\s]+/).map(cell => cell.trim().replace(/^["']|["']$/g, '')).filter(Boolean);
+
+/**
+ * Reads a pasted list or an uploaded CSV / TXT file: one wallet per line, taken from the first
+ * cell that is a valid address (so exports with label or balance columns work as they are).
+ * A first line without any address is treated as a CSV header; `#` starts a comment.
+ */
+export const parseAddressList = (text: string, adapter: ChainAdapter): ParsedAddressList => {
+  const addresses: string[] = [];
+  const seen = new Set<string>();
+  const errors: AddressListError[] = [];
+  let duplicates = 0;
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const cells = splitCells(raw.replace(/#.*$/, ''));
+    if (cells.length === 0) return;
+
+    const address = cells.find(cell => adapter.validateAddress(cell));
+    if (!address) {
+      if (i === 0 && cells.some(cell => /address|wallet/i.test(cell))) return; // Header row
+      errors.push({ line: i + 1, value: cells[0], message: `Not a valid ${adapter.addressLabel} address` });
+      return;
+    }
+
+    const normalized = adapter.normalizeAddress(address);
+    if (seen.has(normalized)) {
+      duplicates++;
+      return;
+    }
+    if (addresses.length >= MAX_INPUT_ADDRESSES) {
+      errors.push({ line: i + 1, value: address, message: `Over the limit of ${MAX_INPUT_ADDRESSES} wallets` });
+      return;
+    }
+    seen.add(normalized);
+    addresses.push(normalized);
+  });
+
+  return { addresses, errors, duplicates };
+};
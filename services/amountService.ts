@@ -0,0 +1,152 @@
+import { AMOUNT_MATCH_TOLERANCE, NATIVE_MINT, NATIVE_SYMBOLS, PEEL_MAX_FRACTION, PEEL_MIN_HOPS } from '../constants';
+import { ChainId, ParsedTxInfo, TransferRecord } from '../types';
+
+type Histories = { [address: string]: ParsedTxInfo[] };
+
+// A transfer together with the transaction it happened in
+export interface TimedTransfer extends TransferRecord {
+  signature: string;
+  blockTime: number;
+  chain: ChainId;
+}
+
+export interface AmountMatch {
+  sender: string; // Input that sent
+  receiver: string; // Input that received a matching amount
+  mint: string;
+  sent: TimedTransfer;
+  received: TimedTransfer;
+}
+
+export interface PeelChain {
+  source: string; // Input the chain starts from
+  hops: TimedTransfer[]; // The forwarded bulk, in order
+  peels: TimedTransfer[]; // Small amounts split off along the way
+  touchedInputs: string[]; // Other inputs that received a hop or a peel
+}
+
+// Maximum hops followed before giving up on a chain
+const MAX_PEEL_HOPS = 12;
+
+export const formatAmount = (amount: number, mint: string, chain: ChainId) => {
+  const unit = mint === NATIVE_MINT ? NATIVE_SYMBOLS[chain] : `${mint.slice(0, 4)}..`;
+  return `${Number(amount.toPrecision(6))} ${unit}`;
+};
+
+// Every transfer across all histories, once per transaction
+export const collectTransfers = (histories: Histories[]): TimedTransfer[] => {
+  const seen = new Set<string>();
+  const transfers: TimedTransfer[] = [];
+
+  histories.forEach(group => {
+    Object.values(group).forEach(txs => {
+      txs.forEach(tx => {
+        if (seen.has(tx.signature)) return;
+        seen.add(tx.signature);
+        (tx.transfers || []).forEach(t => {
+          transfers.push({ ...t, signature: tx.signature, blockTime: tx.blockTime, chain: tx.chain });
+        });
+      });
+    });
+  });
+
+  return transfers;
+};
+
+/**
+ * "A sent x, and within `windowSeconds` input B received x minus a small fee from someone else."
+ * Each outbound transfer is matched to at most one inbound transfer (the closest amount).
+ */
+export const findAmountMatches = (
+  transfers: TimedTransfer[],
+  inputAddresses: Set<string>,
+  windowSeconds: number
+): AmountMatch[] => {
+  const inboundByMint = new Map<string, TimedTransfer[]>();
+  transfers.forEach(t => {
+    if (!inputAddresses.has(t.to) || inputAddresses.has(t.from)) return;
+    if (!inboundByMint.has(t.mint)) inboundByMint.set(t.mint, []);
+    inboundByMint.get(t.mint)!.push(t);
+  });
+  inboundByMint.forEach(list => list.sort((a, b) => a.blockTime - b.blockTime));
+
+  const matches: AmountMatch[] = [];
+  transfers.forEach(sent => {
+    if (!inputAddresses.has(sent.from) || inputAddresses.has(sent.to)) return;
+    const inbound = inboundByMint.get(sent.mint);
+    if (!inbound) return;
+
+    // First inbound transfer at or after the send (binary search)
+    let lo = 0;
+    let hi = inbound.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (inbound[mid].blockTime < sent.blockTime) lo = mid + 1; else hi = mid;
+    }
+
+    let best: TimedTransfer | null = null;
+    for (let i = lo; i < inbound.length && inbound[i].blockTime - sent.blockTime <= windowSeconds; i++) {
+      const received = inbound[i];
+      if (received.to === sent.from || received.signature === sent.signature) continue;
+      const shortfall = sent.amount - received.amount;
+      if (shortfall < 0 || shortfall > sent.amount * AMOUNT_MATCH_TOLERANCE) continue;
+      if (!best || received.amount > best.amount) best = received;
+    }
+
+    if (best) matches.push({ sender: sent.from, receiver: best.to, mint: sent.mint, sent, received: best });
+  });
+
+  return matches;
+};
+
+/**
+ * Follows the bulk of an input's outbound transfer hop by hop: each hop must forward between
+ * (1 - PEEL_MAX_FRACTION) and 100% of what arrived, later in time. Smaller outbound transfers
+ * from the same wallet before the next hop are the "peels".
+ */
+export const findPeelChains = (transfers: TimedTransfer[], inputAddresses: Set<string>): PeelChain[] => {
+  const outbound = new Map<string, TimedTransfer[]>();
+  transfers.forEach(t => {
+    const key = `${t.from}|${t.mint}`;
+    if (!outbound.has(key)) outbound.set(key, []);
+    outbound.get(key)!.push(t);
+  });
+  outbound.forEach(list => list.sort((a, b) => a.blockTime - b.blockTime));
+
+  const chains: PeelChain[] = [];
+
+  transfers.forEach(start => {
+    if (!inputAddresses.has(start.from) || inputAddresses.has(start.to)) return;
+
+    const hops: TimedTransfer[] = [start];
+    const peels: TimedTransfer[] = [];
+    const visited = new Set([start.from, start.to]);
+    let current = start;
+
+    while (hops.length < MAX_PEEL_HOPS) {
+      const candidates = (outbound.get(`${current.to}|${current.mint}`) || [])
+        .filter(t => t.blockTime >= current.blockTime && t.signature !== current.signature);
+      const next = candidates.find(t =>
+        t.amount <= current.amount && t.amount >= current.amount * (1 - PEEL_MAX_FRACTION) && !visited.has(t.to)
+      );
+      if (!next) break;
+
+      candidates
+        .filter(t => t !== next && t.blockTime <= next.blockTime && t.amount < next.amount)
+        .forEach(t => peels.push(t));
+      hops.push(next);
+      visited.add(next.to);
+      current = next;
+    }
+
+    if (hops.length < PEEL_MIN_HOPS) return;
+
+    const touched = new Set<string>();
+    [...hops, ...peels].forEach(t => {
+      if (inputAddresses.has(t.to) && t.to !== start.from) touched.add(t.to);
+    });
+    chains.push({ source: start.from, hops, peels, touchedInputs: Array.from(touched) });
+  });
+
+  return chains;
+};
@@ -0,0 +1,79 @@
+import { AnalysisJob, AnalysisResult, AnalysisWorkerRequest, AnalysisWorkerResponse, FetchedHistories } from '../types';
+
+export type AnalysisUpdate = Extract<AnalysisWorkerResponse, { type: 'status' | 'partial' }>;
+
+interface PendingJob {
+  resolve: (value: { result: AnalysisResult; fetched?: FetchedHistories }) => void;
+  reject: (error: Error) => void;
+  onUpdate?: (update: AnalysisUpdate) => void;
+  fetchKey: string;
+}
+
+let worker: Worker | null = null;
+let heldKey: string | null = null; // fetchKey of the histories the worker holds
+let nextJobId = 1;
+const pending = new Map<number, PendingJob>();
+
+const send = (request: AnalysisWorkerRequest) => getWorker().postMessage(request);
+
+const handleMessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+  const message = event.data;
+  const job = pending.get(message.jobId);
+  if (!job) return;
+  switch (message.type) {
+    case 'status':
+    case 'partial':
+      job.onUpdate?.(message);
+      return;
+    case 'done':
+      pending.delete(message.jobId);
+      heldKey = job.fetchKey;
+      job.resolve({ result: message.result, fetched: message.fetched });
+      return;
+    case 'error':
+      pending.delete(message.jobId);
+      heldKey = null; // A failed fetch leaves the worker without data
+      job.reject(new Error(message.message));
+  }
+};
+
+// A crashed worker fails its jobs and is replaced on the next one
+const handleCrash = (event: ErrorEvent) => {
+  console.error("Analysis worker crashed", event);
+  pending.forEach(job => job.reject(new Error(event.message || "Analysis worker crashed")));
+  pending.clear();
+  worker?.terminate();
+  worker = null;
+  heldKey = null;
+};
+
+const getWorker = () => {
+  if (!worker) {
+    worker = new Worker(new URL('./analysisWorker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', handleCrash);
+  }
+  return worker;
+};
+
+/**
+ * Fetches (unless the worker already holds `job.fetchKey`'s data) and analyses off the main thread.
+ * `job.fetched` is only sent across when the worker doesn't hold it. Status messages and partial
+ * results arrive through `onUpdate` while wallets are still being fetched.
+ */
+export const runAnalysisJob = (
+  job: AnalysisJob,
+  onUpdate?: (update: AnalysisUpdate) => void
+): Promise<{ result: AnalysisResult; fetched?: FetchedHistories }> =>
+  new Promise((resolve, reject) => {
+    const jobId = nextJobId++;
+    pending.set(jobId, { resolve, reject, onUpdate, fetchKey: job.fetchKey });
+    const fetched = heldKey === job.fetchKey ? undefined : job.fetched;
+    send({ type: 'analyze', jobId, ...job, fetched });
+  });
+
+// The worker's histories are stale (cache purged, or another investigation's data is being loaded)
+export const forgetAnalysisData = () => {
+  heldKey = null;
+  worker?.postMessage({ type: 'forget' } satisfies AnalysisWorkerRequest);
+};
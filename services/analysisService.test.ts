@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { ConnectedPair, ConnectionType, ParsedTxInfo } from '../types';
+import { DEFAULT_ANALYSIS_CONFIG, HUB_PAIR_NEIGHBORS } from '../constants';
+import { analyzeConnections } from './analysisService';
+import { parseEsploraTransaction } from './bitcoinService';
+
+const A = 'bc1qaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+const B = 'bc1qbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+const F = 'bc1qffffffffffffffffffffffffffffffffffffff';
+
+const X = 'bc1qxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx';
+
+// A confirmed Esplora tx spending one output of each of `from` and paying 0.1 BTC to each of `to`,
+// parsed as it appears in `monitored`'s history
+const payment = (txid: string, blockTime: number, from: string | string[], to: string[], monitored: string): ParsedTxInfo =>
+  parseEsploraTransaction({
+    txid,
+    vin: [from].flat().map(addr => ({ is_coinbase: false, prevout: { scriptpubkey_address: addr, scriptpubkey_type: 'v0_p2wpkh', value: 50_000_000 } })),
+    vout: to.map(addr => ({ scriptpubkey_address: addr, scriptpubkey_type: 'v0_p2wpkh', value: 10_000_000 })),
+    status: { confirmed: true, block_time: blockTime },
+  }, monitored)!;
+
+const pairOf = (pairs: ConnectedPair[], a: string, b: string) =>
+  pairs.find(p => [p.addressA, p.addressB].sort().join() === [a, b].sort().join());
+
+const evidenceKeys = (pair: ConnectedPair) =>
+  pair.breakdown.items.map(item => `${item.type}:${[...item.signatures].sort().join(',')}`);
+
+describe('analyzeConnections', () => {
+  it('counts a transaction found in both wallets\' histories once', () => {
+    // F pays A and B in one tx, so t1 is in both histories
+    const { summary } = analyzeConnections({
+      [A]: [payment('t1', 1000, F, [A, B], A)],
+      [B]: [payment('t1', 1000, F, [A, B], B)],
+    }, DEFAULT_ANALYSIS_CONFIG);
+
+    summary.connectedPairs.forEach(pair => {
+      const keys = evidenceKeys(pair);
+      expect(new Set(keys).size).toBe(keys.length);
+    });
+  });
+
+  it('counts a direct payment once although both wallets list it', () => {
+    const { summary } = analyzeConnections({
+      [A]: [payment('t2', 1000, A, [B], A)],
+      [B]: [payment('t2', 1000, A, [B], B)],
+    }, DEFAULT_ANALYSIS_CONFIG);
+
+    const pair = pairOf(summary.connectedPairs, A, B)!;
+    expect(evidenceKeys(pair)).toEqual(['DIRECT:t2']);
+  });
+
+  it('adds no time proximity for txs already counted as co-spends', () => {
+    // A and B co-spend to X in t3; B pays X again 10s later in t4
+    const { summary } = analyzeConnections({
+      [A]: [payment('t3', 1000, [A, B], [X], A)],
+      [B]: [payment('t4', 1010, B, [X], B), payment('t3', 1000, [A, B], [X], B)],
+    }, DEFAULT_ANALYSIS_CONFIG);
+
+    const types = pairOf(summary.connectedPairs, A, B)!.breakdown.items.map(item => item.type);
+    expect(types).toContain(ConnectionType.CO_SPEND);
+    expect(types).not.toContain(ConnectionType.TIME_PROXIMATE);
+  });
+
+  it('does not call a third party paying two inputs a direct transfer', () => {
+    const { summary } = analyzeConnections({
+      [A]: [payment('t1', 1000, F, [A, B], A)],
+      [B]: [payment('t1', 1000, F, [A, B], B)],
+    }, DEFAULT_ANALYSIS_CONFIG);
+
+    const types = pairOf(summary.connectedPairs, A, B)?.breakdown.items.map(item => item.type) ?? [];
+    expect(types).not.toContain(ConnectionType.DIRECT);
+  });
+
+  it('does not cluster an input with the change of a tx it only received', () => {
+    // F pays A a round 0.1 BTC; the non-round output to B looks like F's change
+    const received = (monitored: string) => parseEsploraTransaction({
+      txid: 't5',
+      vin: [{ is_coinbase: false, prevout: { scriptpubkey_address: F, scriptpubkey_type: 'v0_p2wpkh', value: 50_000_000 } }],
+      vout: [
+        { scriptpubkey_address: A, scriptpubkey_type: 'v0_p2wpkh', value: 10_000_000 },
+        { scriptpubkey_address: B, scriptpubkey_type: 'v0_p2wpkh', value: 23_456_789 },
+      ],
+      status: { confirmed: true, block_time: 1000 },
+    }, monitored)!;
+    // A later co-spends with F, so A and F are one owner
+    const { summary } = analyzeConnections({
+      [A]: [payment('t6', 90_000, [A, F], [X], A), received(A)],
+      [B]: [received(B)],
+    }, DEFAULT_ANALYSIS_CONFIG);
+
+    expect(received(B).changeAddress).toBe(B);
+    expect(pairOf(summary.connectedPairs, A, B)).toBeUndefined();
+  });
+
+  it('pairs the inputs of a popular counterparty linearly, not every pair', () => {
+    // 100 inputs paying X an hour apart: 4950 pairs if every pair were recorded
+    const wallets = Array.from({ length: 100 }, (_, i) => `bc1q${String(i).padStart(38, '0')}`);
+    const { summary } = analyzeConnections(
+      Object.fromEntries(wallets.map((w, i) => [w, [payment(`s${i}`, 3600 * i, w, [X], w)]])),
+      DEFAULT_ANALYSIS_CONFIG
+    );
+
+    expect(summary.connectedPairs.length).toBeLessThanOrEqual(wallets.length * HUB_PAIR_NEIGHBORS);
+    // Neighbours in time are still linked
+    expect(pairOf(summary.connectedPairs, wallets[0], wallets[1])).toBeDefined();
+  });
+
+  it('bounds the time-proximity evidence of a busy counterparty', () => {
+    // 100 inputs paying X a second apart, all inside one time window
+    const wallets = Array.from({ length: 100 }, (_, i) => `bc1q${String(i).padStart(38, '0')}`);
+    const { summary } = analyzeConnections(
+      Object.fromEntries(wallets.map((w, i) => [w, [payment(`p${i}`, 1000 + i, w, [X], w)]])),
+      DEFAULT_ANALYSIS_CONFIG
+    );
+
+    const proximity = summary.connectedPairs
+      .flatMap(pair => pair.breakdown.items)
+      .filter(item => item.type === ConnectionType.TIME_PROXIMATE);
+    expect(proximity.length).toBeGreaterThan(0);
+    expect(proximity.length).toBeLessThanOrEqual(wallets.length * HUB_PAIR_NEIGHBORS);
+  });
+});
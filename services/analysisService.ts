@@ -1,34 +1,29 @@
-import { ParsedTxInfo, GraphData, Node, Link, ConnectionType, AnalysisSummary, AnalysisConfig } from '../types';
-import { IGNORED_PROGRAMS } from '../constants';
+import { ParsedTxInfo, GraphData, Node, Link, ConnectionType, AnalysisSummary, AnalysisConfig, AnalysisContext, FlaggedEntity, PairEvidence, ConnectedPair, CoSignedTx, FeeSponsor } from '../types';
+import { HUB_PAIR_NEIGHBORS, IGNORED_PROGRAMS, LABEL_DOWNWEIGHT_FACTOR, NATIVE_MINT } from '../constants';
+import { buildCoverage } from './historyService';
+import { traceMultiHopFlows } from './tracingService';
+import { collectTransfers, findAmountMatches, findPeelChains, formatAmount } from './amountService';
+import { findSharedAssets } from './assetService';
+import { describeAddress, getLabel, getPolicy } from './labelService';
+import { DEFAULT_SCORING_PROFILE, scoreOverall, scorePair, toScore } from './scoringService';
+import { clusterEntities } from './clusteringService';
+import { findTemporalCorrelations } from './temporalService';
+import { describeBehaviorMatches, findBehaviorSimilarities } from './behaviorService';
 
-// Helper to calculate confidence score (0-100)
-const calculateConfidence = (pairs: any[]) => {
-  if (pairs.length === 0) return 0;
-  
-  let totalScore = 0;
-  // Weighted scoring
-  pairs.forEach(p => {
-    switch (p.type) {
-      case ConnectionType.DIRECT: totalScore += 40; break;
-      case ConnectionType.MIDDLEMAN: totalScore += 30; break;
-      case ConnectionType.TIME_PROXIMATE: totalScore += 20; break;
-      case ConnectionType.SHARED_COUNTERPARTY: totalScore += 10; break;
-      default: totalScore += 5;
-    }
-  });
-
-  // Cap at 100
-  return Math.min(Math.round(totalScore), 100);
-};
+// Where a piece of evidence comes from: its transactions, and what sits between the two wallets
+type EvidenceTrail = Pick<PairEvidence, 'signatures' | 'timestamps' | 'counterparty' | 'timeDelta'>;
 
 export const analyzeConnections = (
   inputs: { [address: string]: ParsedTxInfo[] },
-  config: AnalysisConfig
+  config: AnalysisConfig,
+  context: AnalysisContext = {}
 ): { graph: GraphData; summary: AnalysisSummary } => {
+  const { coverage = {}, intermediaries = {}, fundingSources = {}, collections = {}, labels, scoring = DEFAULT_SCORING_PROFILE } = context;
   const inputAddresses = Object.keys(inputs);
+  const inputSet = new Set(inputAddresses);
   const nodes = new Map<string, Node>();
   const links = new Map<string, Link>();
-  const connectedPairs = new Map<string, { addressA: string, addressB: string, reason: string, score: number, type: ConnectionType }>();
+  const pairEvidence = new Map<string, { addressA: string, addressB: string, evidence: PairEvidence[], seen: Set<string> }>();
   
   let totalTx = 0;
   const uniqueCounterpartiesSet = new Set<string>();
@@ -52,7 +47,9 @@ export const analyzeConnections = (
     if (links.has(linkId)) {
       const l = links.get(linkId)!;
       l.value += weight;
-      if (type === ConnectionType.DIRECT || type === ConnectionType.MIDDLEMAN) {
+      if (type === ConnectionType.DIRECT || type === ConnectionType.MIDDLEMAN || type === ConnectionType.CO_SPEND || type === ConnectionType.CO_SIGN ||
+          type === ConnectionType.MULTI_HOP || type === ConnectionType.COMMON_FUNDER ||
+          type === ConnectionType.AMOUNT_MATCH || type === ConnectionType.PEEL_CHAIN) {
         l.type = type; // Upgrade link type if stronger connection found
       }
     } else {
@@ -60,44 +57,109 @@ export const analyzeConnections = (
     }
   };
 
-  const addNode = (id: string, group: 'counterparty' | 'program' | 'middleman') => {
+  const addNode = (id: string, group: 'counterparty' | 'program' | 'middleman' | 'change' | 'funder' | 'asset') => {
     if (!nodes.has(id)) {
+      const entity = getLabel(labels, id);
       nodes.set(id, {
         id,
         group,
-        label: `${id.slice(0, 4)}...${id.slice(-4)}`,
-        val: group === 'middleman' ? 15 : 5
+        label: entity ? entity.name : `${id.slice(0, 4)}...${id.slice(-4)}`,
+        val: group === 'middleman' || group === 'funder' ? 15 : group === 'change' || group === 'asset' ? 8 : 5,
+        ...(entity && { entity, highlighted: getPolicy(labels, id) === 'highlight' })
       });
     } else {
       const n = nodes.get(id)!;
       n.val += 1;
-      if (group === 'middleman') n.group = 'middleman'; // Upgrade node type
+      if (group === 'funder' || (group === 'middleman' && n.group !== 'funder') || (group === 'change' && n.group === 'counterparty')) {
+        n.group = group; // Upgrade node type
+      }
     }
   };
 
-  const recordPair = (addrA: string, addrB: string, reason: string, score: number, type: ConnectionType) => {
+  // Collects every piece of evidence per pair; weighting happens afterwards in the scoring model
+  const recordPair = (
+    addrA: string,
+    addrB: string,
+    reason: string,
+    strength: number,
+    type: ConnectionType,
+    trail: EvidenceTrail = { signatures: [], timestamps: [] }
+  ) => {
+    if (addrA === addrB) return; // The monitored wallet itself shows up as a recipient on inbound txs
     const pairKey = [addrA, addrB].sort().join('-');
-    // Keep the strongest reason/score for this pair
-    if (!connectedPairs.has(pairKey) || (connectedPairs.get(pairKey)!.score < score)) {
-      connectedPairs.set(pairKey, { addressA: addrA, addressB: addrB, reason, score, type });
+    if (!pairEvidence.has(pairKey)) pairEvidence.set(pairKey, { addressA: addrA, addressB: addrB, evidence: [], seen: new Set() });
+    const entry = pairEvidence.get(pairKey)!;
+    // A tx in both wallets' histories is seen once from each side; it must count as one signal, not two
+    if (trail.signatures.length > 0) {
+      const evidenceKey = `${type}:${[...trail.signatures].sort().join(',')}`;
+      if (entry.seen.has(evidenceKey)) return;
+      entry.seen.add(evidenceKey);
     }
+    entry.evidence.push({ type, reason, strength, ...trail });
   };
 
+  // Strength factor from the label policy of the entities a piece of evidence passes through: null when any is ignored
+  const policyFactor = (via: string[]): number | null => {
+    const policies = via.map(addr => getPolicy(labels, addr));
+    if (policies.includes('ignore')) return null;
+    return policies.includes('downweight') ? LABEL_DOWNWEIGHT_FACTOR : 1;
+  };
+  const isIgnored = (addr: string) => getPolicy(labels, addr) === 'ignore';
+
   // --- DATA STRUCTURES FOR ADVANCED ANALYSIS ---
   // Map<Counterparty, Array<{inputAddr, timestamp, txSig}>>
   const interactionLog = new Map<string, Array<{input: string, time: number, tx: string}>>();
+  // Map<Counterparty, distinct inputs that touched it>
+  const interactionInputs = new Map<string, Set<string>>();
+
+  // UTXO common-input-ownership: union-find over addresses co-spent in one tx (plus its change output)
+  const clusterParent = new Map<string, string>();
+  const findRoot = (addr: string): string => {
+    if (!clusterParent.has(addr)) clusterParent.set(addr, addr);
+    let root = addr;
+    while (clusterParent.get(root) !== root) root = clusterParent.get(root)!;
+    clusterParent.set(addr, root); // Path compression
+    return root;
+  };
+  const union = (a: string, b: string) => {
+    const ra = findRoot(a);
+    const rb = findRoot(b);
+    if (ra !== rb) clusterParent.set(ra, rb);
+  };
+  // Map<pairKey, tx> for input wallets spent together in the same tx
+  const coSpendTxs = new Map<string, { signature: string, blockTime: number }>();
+  // Map<pairKey, txs> two inputs co-spent or co-signed; these already link the pair directly
+  const jointTxs = new Map<string, Set<string>>();
+  const markJoint = (a: string, b: string, signature: string) => {
+    const key = [a, b].sort().join('-');
+    if (!jointTxs.has(key)) jointTxs.set(key, new Set());
+    jointTxs.get(key)!.add(signature);
+  };
+  const processedCoSpends = new Set<string>();
+  // Txs signed / paid for by two or more inputs, and inputs' txs whose fee someone else paid
+  const coSignedTxs: CoSignedTx[] = [];
+  const sponsoredTxs = new Map<string, Array<{ input: string, signature: string, blockTime: number }>>();
+  const processedSigners = new Set<string>();
 
   // 2. Process Data
   inputAddresses.forEach(sourceAddr => {
     const txs = inputs[sourceAddr];
     
     txs.forEach(tx => {
-      // 2.1 Direct Transfers
+      // 2.1 Direct Transfers: value this wallet itself sent to another input. A third party
+      // paying two inputs in one tx lists both as recipients, but links them no more than any payer would.
+      const paidInputs = new Set((tx.transfers
+        ? tx.transfers.filter(t => t.from === sourceAddr).map(t => t.to)
+        : tx.sender === sourceAddr ? tx.recipients : [] // Cached before transfers were recorded
+      ).filter(to => to !== sourceAddr && inputSet.has(to)));
+      paidInputs.forEach(recipient => {
+        addLink(sourceAddr, recipient, ConnectionType.DIRECT, 5, "Direct Transfer");
+        recordPair(sourceAddr, recipient, `Direct transfer in tx ${tx.signature.slice(0,8)}...`, 1, ConnectionType.DIRECT,
+          { signatures: [tx.signature], timestamps: [tx.blockTime] });
+      });
+
       tx.recipients.forEach(recipient => {
-        if (inputAddresses.includes(recipient)) {
-          addLink(sourceAddr, recipient, ConnectionType.DIRECT, 5, "Direct Transfer");
-          recordPair(sourceAddr, recipient, `Direct transfer in tx ${tx.signature.slice(0,8)}...`, 50, ConnectionType.DIRECT);
-        } else {
+        if (!inputSet.has(recipient) && !isIgnored(recipient)) {
           // Track for Common Counterparty & Time Analysis
           uniqueCounterpartiesSet.add(recipient);
           addNode(recipient, 'counterparty');
@@ -105,13 +167,55 @@ export const analyzeConnections = (
 
           if (!interactionLog.has(recipient)) interactionLog.set(recipient, []);
           interactionLog.get(recipient)!.push({ input: sourceAddr, time: tx.blockTime, tx: tx.signature });
+          if (!interactionInputs.has(recipient)) interactionInputs.set(recipient, new Set());
+          interactionInputs.get(recipient)!.add(sourceAddr);
         }
       });
 
-      // 2.2 Shared Programs
+      // 2.2 Co-spent inputs & change outputs (UTXO chains only)
+      if (tx.inputAddresses && tx.inputAddresses.length > 0 && !processedCoSpends.has(tx.signature)) {
+        processedCoSpends.add(tx.signature);
+        const owned = [...tx.inputAddresses];
+        // Change is a guess at the payer's own output; it says nothing about inputs that only received
+        const funded = tx.inputAddresses.some(a => inputSet.has(a));
+        if (funded && tx.changeAddress && !owned.includes(tx.changeAddress)) owned.push(tx.changeAddress);
+
+        owned.forEach(addr => union(owned[0], addr));
+
+        const ownedInputs = owned.filter(a => inputSet.has(a));
+        ownedInputs.forEach(input => {
+          owned.forEach(other => {
+            if (other === input || inputSet.has(other)) return;
+            addNode(other, other === tx.changeAddress ? 'change' : 'counterparty');
+            addLink(input, other, ConnectionType.CO_SPEND, 3, other === tx.changeAddress ? "Change output" : "Co-spent input");
+          });
+        });
+        for (let i = 0; i < ownedInputs.length; i++) {
+          for (let j = i + 1; j < ownedInputs.length; j++) {
+            addLink(ownedInputs[i], ownedInputs[j], ConnectionType.CO_SPEND, 5, "Co-spent inputs");
+            coSpendTxs.set([ownedInputs[i], ownedInputs[j]].sort().join('-'), { signature: tx.signature, blockTime: tx.blockTime });
+            markJoint(ownedInputs[i], ownedInputs[j], tx.signature);
+          }
+        }
+      }
+
+      // 2.3 Co-signers & fee payers (account chains)
+      if (tx.feePayer && tx.signers && !processedSigners.has(tx.signature)) {
+        processedSigners.add(tx.signature);
+        const involvedInputs = Array.from(new Set([tx.feePayer, ...tx.signers])).filter(a => inputSet.has(a));
+        if (involvedInputs.length >= 2) {
+          coSignedTxs.push({ signature: tx.signature, blockTime: tx.blockTime, feePayer: tx.feePayer, signers: tx.signers, inputs: involvedInputs });
+          involvedInputs.forEach((a, i) => involvedInputs.slice(i + 1).forEach(b => markJoint(a, b, tx.signature)));
+        } else if (involvedInputs.length === 1 && !inputSet.has(tx.feePayer) && !isIgnored(tx.feePayer)) {
+          if (!sponsoredTxs.has(tx.feePayer)) sponsoredTxs.set(tx.feePayer, []);
+          sponsoredTxs.get(tx.feePayer)!.push({ input: involvedInputs[0], signature: tx.signature, blockTime: tx.blockTime });
+        }
+      }
+
+      // 2.4 Shared Programs
       if (config.includePrograms) {
         tx.programIds.forEach(prog => {
-          if (IGNORED_PROGRAMS.includes(prog)) return;
+          if (IGNORED_PROGRAMS.includes(prog) || isIgnored(prog)) return;
           addNode(prog, 'program');
           addLink(sourceAddr, prog, ConnectionType.SHARED_PROGRAM, 0.5);
         });
@@ -121,65 +225,318 @@ export const analyzeConnections = (
 
   // 3. Advanced Heuristics
 
+  // 3.0 Common-Input-Ownership Clusters
+  // Inputs that ended up in the same union-find set are controlled by one key holder,
+  // either because they were spent together or via a chain of co-spends / change outputs.
+  const inputsByCluster = new Map<string, string[]>();
+  inputAddresses.forEach(addr => {
+    if (!clusterParent.has(addr)) return;
+    const root = findRoot(addr);
+    if (!inputsByCluster.has(root)) inputsByCluster.set(root, []);
+    inputsByCluster.get(root)!.push(addr);
+  });
+
+  const linkedClusterRoots = new Set<string>();
+  inputsByCluster.forEach((members, root) => {
+    if (members.length < 2) return;
+    linkedClusterRoots.add(root);
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const coSpend = coSpendTxs.get([members[i], members[j]].sort().join('-'));
+        const reason = coSpend
+          ? `Co-spent as inputs in tx ${coSpend.signature.slice(0, 8)}...`
+          : `Same common-input cluster (linked through co-spent / change addresses)`;
+        recordPair(members[i], members[j], reason, coSpend ? 1 : 0.75, ConnectionType.CO_SPEND, coSpend
+          ? { signatures: [coSpend.signature], timestamps: [coSpend.blockTime] }
+          : undefined);
+      }
+    }
+  });
+
+  // 3.0.1 Co-Signed Transactions & Fee Sponsors
+  // Signing a tx together, or paying another wallet's fee, needs both keys (or a deliberate
+  // arrangement), so it's near-certain common control. A third party paying fees for several
+  // inputs is weaker: relayers and gasless services do that for strangers too.
+  coSignedTxs.forEach(tx => {
+    for (let i = 0; i < tx.inputs.length; i++) {
+      for (let j = i + 1; j < tx.inputs.length; j++) {
+        const [a, b] = [tx.inputs[i], tx.inputs[j]];
+        const payer = a === tx.feePayer ? a : b === tx.feePayer ? b : null;
+        const other = payer === a ? b : a;
+        addLink(a, b, ConnectionType.CO_SIGN, 5, payer ? "Fee sponsorship" : "Co-signed");
+        recordPair(a, b,
+          payer
+            ? `${payer.slice(0, 4)}.. paid the fee for a tx signed by ${other.slice(0, 4)}.. (${tx.signature.slice(0, 8)}...)`
+            : `Co-signed tx ${tx.signature.slice(0, 8)}...`,
+          1, ConnectionType.CO_SIGN, { signatures: [tx.signature], timestamps: [tx.blockTime] });
+      }
+    }
+  });
+
+  const feeSponsors: FeeSponsor[] = [];
+  const sponsorNodes = new Set<string>();
+  sponsoredTxs.forEach((txs, sponsor) => {
+    const sponsored = Array.from(new Set(txs.map(t => t.input)));
+    if (sponsored.length < 2) return;
+    const factor = policyFactor([sponsor])!;
+    addNode(sponsor, 'funder');
+    sponsorNodes.add(sponsor);
+    sponsored.forEach(input => addLink(sponsor, input, ConnectionType.CO_SIGN, 2, "Paid fees"));
+    feeSponsors.push({ sponsor, inputs: sponsored, signatures: txs.map(t => t.signature) });
+
+    // Each input's first sponsored tx as the trail
+    const first = new Map<string, { signature: string, blockTime: number }>();
+    txs.forEach(t => {
+      if (!first.has(t.input) || t.blockTime < first.get(t.input)!.blockTime) first.set(t.input, t);
+    });
+    for (let i = 0; i < sponsored.length; i++) {
+      for (let j = i + 1; j < sponsored.length; j++) {
+        const [a, b] = [first.get(sponsored[i])!, first.get(sponsored[j])!];
+        recordPair(sponsored[i], sponsored[j], `Fees paid by the same wallet ${describeAddress(labels, sponsor)}`,
+          0.6 * factor, ConnectionType.CO_SIGN, {
+            signatures: [a.signature, b.signature],
+            timestamps: [a.blockTime, b.blockTime],
+            counterparty: sponsor,
+            timeDelta: Math.abs(a.blockTime - b.blockTime)
+          });
+      }
+    }
+  });
+
   // 3.1 Time-Proximate Transactions & Common Counterparties
   interactionLog.forEach((interactions, counterparty) => {
     // Only interesting if > 1 distinct input address interacted with this counterparty
-    const distinctInputs = new Set(interactions.map(i => i.input));
-    if (distinctInputs.size < 2) return;
+    if (interactionInputs.get(counterparty)!.size < 2) return;
 
-    // Check Time Proximity
+    // Check Time Proximity: sorted, so each interaction is only compared within the window after it, and
+    // paired with at most HUB_PAIR_NEIGHBORS of the other inputs' interactions there
     interactions.sort((a, b) => a.time - b.time);
     
     for (let i = 0; i < interactions.length; i++) {
-      for (let j = i + 1; j < interactions.length; j++) {
+      let paired = 0;
+      for (let j = i + 1; j < interactions.length && paired < HUB_PAIR_NEIGHBORS; j++) {
         const a = interactions[i];
         const b = interactions[j];
         
+        const timeDiff = b.time - a.time;
+        if (timeDiff > config.timeWindowSeconds) break;
         if (a.input === b.input) continue; // Skip same wallet
+        // Both in one tx isn't proximity; nor is a tx already counted as co-spend / co-sign evidence
+        if (a.tx === b.tx) continue;
+        const joint = jointTxs.get([a.input, b.input].sort().join('-'));
+        if (joint && (joint.has(a.tx) || joint.has(b.tx))) continue;
         
-        const timeDiff = Math.abs(a.time - b.time);
+        addLink(a.input, counterparty, ConnectionType.TIME_PROXIMATE, 2);
+        addLink(b.input, counterparty, ConnectionType.TIME_PROXIMATE, 2);
         
-        if (timeDiff <= config.timeWindowSeconds) {
-           addLink(a.input, counterparty, ConnectionType.TIME_PROXIMATE, 2);
-           addLink(b.input, counterparty, ConnectionType.TIME_PROXIMATE, 2);
-           
-           recordPair(a.input, b.input, 
-             `Interacted with same entity (${counterparty.slice(0,4)}..) within ${timeDiff}s`, 
-             30, 
-             ConnectionType.TIME_PROXIMATE
-           );
-        }
+        recordPair(a.input, b.input, 
+          `Interacted with same entity (${describeAddress(labels, counterparty)}) within ${timeDiff}s`, 
+          policyFactor([counterparty])!, 
+          ConnectionType.TIME_PROXIMATE,
+          { signatures: [a.tx, b.tx], timestamps: [a.time, b.time], counterparty, timeDelta: timeDiff }
+        );
+        paired++;
       }
     }
   });
 
-  // 3.2 Middleman Detection (1-Hop)
-  // Logic: Input A -> Middleman -> Input B (or vice versa)
-  // We need to look at the flow. 
-  // In the current limited fetch, we see A->Recipients. We don't have Recipient->B history unless B is also an input.
-  // However, if A sent to M, and B sent to M, that's a common counterparty.
-  // If A sent to M, and M is actually B (checked in Direct).
-  // True "Middleman" in this context usually means we see A->M and B receiving from M. 
-  // Without scraping M's history, we can only infer if M is a known connector.
-  // Simplified "Hub" Detection: If a counterparty connects > 2 inputs, mark as Middleman/Hub.
+  // 3.2 Confirmed Multi-Hop Flows (A -> M [-> M2] -> B)
+  // Directed, time-ordered paths built from the inputs' histories plus any expanded
+  // intermediary histories. These are actual money movements, so they outrank hub guesses.
+  // Routes through ignored entities (e.g. an exchange deposit and withdrawal) are dropped.
+  const flowPaths = traceMultiHopFlows(inputs, intermediaries, config.traceDepth)
+    .filter(path => policyFactor(path.hops.slice(0, -1).map(h => h.to)) !== null);
+  flowPaths.forEach(path => {
+    path.hops.forEach(hop => {
+      if (!inputSet.has(hop.to)) addNode(hop.to, 'middleman');
+      addLink(hop.from, hop.to, ConnectionType.MULTI_HOP, 4, `Flow hop in tx ${hop.signature.slice(0, 8)}...`);
+    });
+    const route = [path.source, ...path.hops.map(h => h.to)].map(a => describeAddress(labels, a)).join(' → ');
+    const sigs = path.hops.map(h => h.signature.slice(0, 8)).join(', ');
+    const strength = policyFactor(path.hops.slice(0, -1).map(h => h.to))!;
+    recordPair(path.source, path.target, `Traced flow ${route} (txs ${sigs})`, strength, ConnectionType.MULTI_HOP, {
+      signatures: path.hops.map(h => h.signature),
+      timestamps: path.hops.map(h => h.blockTime),
+      counterparty: path.hops[0].to,
+      timeDelta: path.hops[path.hops.length - 1].blockTime - path.hops[0].blockTime
+    });
+  });
+  const flowNodes = new Set(flowPaths.flatMap(p => p.hops.map(h => h.to)));
+
+  // 3.3 Common Funder
+  // Wallets seeded by the same source (or by each other) are the classic sybil pattern.
+  const inputsByFunder = new Map<string, string[]>();
+  Object.entries(fundingSources).forEach(([addr, source]) => {
+    if (!inputs[addr]) return;
+    const when = `${source.isFirstDeposit ? 'first' : 'earliest seen'} deposit, tx ${source.signature.slice(0, 8)}...`;
+
+    if (inputSet.has(source.funder)) {
+      addLink(source.funder, addr, ConnectionType.COMMON_FUNDER, 5, "Funded input");
+      recordPair(source.funder, addr, `${source.funder.slice(0, 4)}.. funded ${addr.slice(0, 4)}.. (${when})`, 1, ConnectionType.COMMON_FUNDER,
+        { signatures: [source.signature], timestamps: [source.blockTime] });
+      return;
+    }
+
+    // Exchange withdrawals fund half the chain; an ignored funder links nothing
+    if (isIgnored(source.funder)) return;
+    addNode(source.funder, 'funder');
+    addLink(source.funder, addr, ConnectionType.COMMON_FUNDER, 3, `Funding source (${when})`);
+    if (!inputsByFunder.has(source.funder)) inputsByFunder.set(source.funder, []);
+    inputsByFunder.get(source.funder)!.push(addr);
+  });
+
+  inputsByFunder.forEach((funded, funder) => {
+    for (let i = 0; i < funded.length; i++) {
+      for (let j = i + 1; j < funded.length; j++) {
+        const [a, b] = [fundingSources[funded[i]], fundingSources[funded[j]]];
+        recordPair(funded[i], funded[j], `Both funded by ${describeAddress(labels, funder)}`, 0.9 * policyFactor([funder])!, ConnectionType.COMMON_FUNDER, {
+          signatures: [a.signature, b.signature],
+          timestamps: [a.blockTime, b.blockTime],
+          counterparty: funder,
+          timeDelta: Math.abs(a.blockTime - b.blockTime)
+        });
+      }
+    }
+  });
+
+  // 3.4 Amount Matching & Peel Chains
+  // Uses the per-transfer amounts: value that leaves one input and reappears at another.
+  const transfers = collectTransfers([inputs, intermediaries]);
+  findAmountMatches(transfers, inputSet, config.timeWindowSeconds).forEach(match => {
+    const { sent, received } = match;
+    addLink(match.sender, match.receiver, ConnectionType.AMOUNT_MATCH, 3, "Matching amounts");
+    recordPair(match.sender, match.receiver,
+      `${match.receiver.slice(0, 4)}.. received ${formatAmount(received.amount, match.mint, received.chain)} ` +
+      `${received.blockTime - sent.blockTime}s after ${match.sender.slice(0, 4)}.. sent ${formatAmount(sent.amount, match.mint, sent.chain)} ` +
+      `(txs ${sent.signature.slice(0, 8)}, ${received.signature.slice(0, 8)})`,
+      1, ConnectionType.AMOUNT_MATCH, {
+        signatures: [sent.signature, received.signature],
+        timestamps: [sent.blockTime, received.blockTime],
+        counterparty: sent.to,
+        timeDelta: received.blockTime - sent.blockTime
+      });
+  });
+
+  const peelNodes = new Set<string>();
+  findPeelChains(transfers, inputSet).forEach(chain => {
+    chain.hops.forEach(hop => {
+      if (!inputSet.has(hop.to)) {
+        addNode(hop.to, 'counterparty');
+        peelNodes.add(hop.to);
+      }
+      addLink(hop.from, hop.to, ConnectionType.PEEL_CHAIN, 2, `Peel hop in tx ${hop.signature.slice(0, 8)}...`);
+    });
+    chain.touchedInputs.forEach(target => {
+      // The chain up to (and including) the transfer that reached this input
+      const steps = [...chain.hops, ...chain.peels].sort((a, b) => a.blockTime - b.blockTime);
+      const trail = steps.slice(0, steps.findIndex(t => t.to === target) + 1);
+      recordPair(chain.source, target,
+        `Peel chain from ${chain.source.slice(0, 4)}.. (${chain.hops.length} hops, ${chain.peels.length} peels) reached ${target.slice(0, 4)}..`,
+        1, ConnectionType.PEEL_CHAIN, {
+          signatures: trail.map(t => t.signature),
+          timestamps: trail.map(t => t.blockTime),
+          counterparty: chain.hops[0].to,
+          timeDelta: trail[trail.length - 1].blockTime - trail[0].blockTime
+        });
+    });
+  });
+
+  // 3.5 Shared Assets
+  // Holding or trading the same obscure token (or NFTs of one collection) is a linking signal,
+  // worth more the fewer other wallets are seen with the asset.
+  const sharedAssets = findSharedAssets(inputs, transfers, collections);
+  const assetNodes = new Set<string>();
+  sharedAssets.forEach(shared => {
+    if (!inputSet.has(shared.asset)) {
+      addNode(shared.asset, 'asset');
+      assetNodes.add(shared.asset);
+    }
+    shared.inputs.forEach(input => addLink(input, shared.asset, ConnectionType.SHARED_ASSET, 1.5, `Holds / trades ${shared.kind}`));
+
+    const kind = shared.kind === 'collection' ? 'NFTs from collection' : shared.kind === 'nft' ? 'NFT' : 'token';
+    const seen = shared.counterparties === 0 ? 'no other wallet seen with it' : `${shared.counterparties} other wallets seen with it`;
+    for (let i = 0; i < shared.inputs.length; i++) {
+      for (let j = i + 1; j < shared.inputs.length; j++) {
+        const [a, b] = [shared.firstSeen[shared.inputs[i]], shared.firstSeen[shared.inputs[j]]];
+        recordPair(shared.inputs[i], shared.inputs[j], `Both hold / trade ${kind} ${shared.asset.slice(0, 4)}.. (${seen})`,
+          0.25 + 0.75 * shared.rarity, ConnectionType.SHARED_ASSET, {
+            signatures: [a.signature, b.signature],
+            timestamps: [a.blockTime, b.blockTime],
+            counterparty: shared.asset,
+            timeDelta: Math.abs(a.blockTime - b.blockTime)
+          });
+      }
+    }
+  });
+
+  // 3.6 Temporal Fingerprint
+  // One operator keeps one schedule: similar hour-of-day / day-of-week activity, and dormant
+  // wallets that wake up together. Weak alone (time zones overlap), but it adds up with the rest.
+  const temporalCorrelations = findTemporalCorrelations(inputs);
+  temporalCorrelations.forEach(c => {
+    addLink(c.addressA, c.addressB, ConnectionType.TEMPORAL_FINGERPRINT, 1, 'Similar activity pattern');
+    const activations = c.sharedActivations.length > 0
+      ? `, woke from dormancy together ${c.sharedActivations.length}x`
+      : '';
+    recordPair(c.addressA, c.addressB,
+      `Active at the same hours (${Math.round(c.hourSimilarity * 100)}%) and weekdays (${Math.round(c.daySimilarity * 100)}%)${activations}`,
+      c.strength, ConnectionType.TEMPORAL_FINGERPRINT, {
+        signatures: c.sharedActivations.flatMap(m => [m.a.firstSignature, m.b.firstSignature]),
+        timestamps: c.sharedActivations.flatMap(m => [m.a.start, m.b.start]),
+        ...(c.sharedActivations.length > 0 && {
+          timeDelta: Math.min(...c.sharedActivations.map(m => Math.abs(m.a.start - m.b.start)))
+        })
+      });
+  });
+
+  // 3.7 Behavioral Fingerprint
+  // Wallets driven by one bot or script build their txs the same way: same priority fee,
+  // compute limit, instruction order and program mix. Ignored entities don't count as a shared habit.
+  const behaviorSimilarities = findBehaviorSimilarities(inputs, isIgnored);
+  behaviorSimilarities.forEach(s => {
+    addLink(s.addressA, s.addressB, ConnectionType.BEHAVIOR_FINGERPRINT, 1, 'Similar tx-building behavior');
+    recordPair(s.addressA, s.addressB,
+      `Same tx-building habits: ${describeBehaviorMatches(s.matches) || 'similar overall'}`,
+      s.strength, ConnectionType.BEHAVIOR_FINGERPRINT, {
+        signatures: s.examples.map(e => e.signature),
+        timestamps: s.examples.map(e => e.blockTime)
+      });
+  });
+
+  // 3.8 Hub Detection
+  // Without an intermediary's own history we can only infer it is a connector:
+  // if a counterparty connects > 2 inputs (or is very busy), mark it as Middleman/Hub.
   
   interactionLog.forEach((interactions, entity) => {
-    const distinctInputs = new Set(interactions.map(i => i.input));
+    const distinctInputs = interactionInputs.get(entity)!;
     if (distinctInputs.size >= 2) {
        // It's a connector. Check if it's strong enough to be a middleman
-       if (distinctInputs.size > 2 || interactions.length > 5) {
+       const isHub = distinctInputs.size > 2 || interactions.length > 5;
+       if (isHub) {
           addNode(entity, 'middleman');
           // Add links
           distinctInputs.forEach(input => {
             addLink(input, entity, ConnectionType.MIDDLEMAN, 3);
           });
-          
-          const inputsArr = Array.from(distinctInputs);
-          recordPair(inputsArr[0], inputsArr[1], `Connected via high-traffic hub ${entity.slice(0,4)}...`, 20, ConnectionType.MIDDLEMAN);
-       } else {
-         // Just a shared counterparty
-         const inputsArr = Array.from(distinctInputs);
-         recordPair(inputsArr[0], inputsArr[1], `Shared counterparty: ${entity.slice(0,4)}...`, 10, ConnectionType.SHARED_COUNTERPARTY);
+       }
+
+       // Pairs of inputs meeting at this entity, evidenced by each one's earliest interaction. In arrival
+       // order, each input is paired with the next HUB_PAIR_NEIGHBORS (every pair, for small entities).
+       const first = new Map<string, { time: number, tx: string }>();
+       interactions.forEach(i => {
+         if (!first.has(i.input) || i.time < first.get(i.input)!.time) first.set(i.input, i);
+       });
+       const inputsArr = Array.from(distinctInputs).sort((a, b) => first.get(a)!.time - first.get(b)!.time);
+       for (let i = 0; i < inputsArr.length; i++) {
+         for (let j = i + 1; j < Math.min(inputsArr.length, i + 1 + HUB_PAIR_NEIGHBORS); j++) {
+           const [a, b] = [first.get(inputsArr[i])!, first.get(inputsArr[j])!];
+           recordPair(inputsArr[i], inputsArr[j],
+             isHub ? `Connected via high-traffic hub ${describeAddress(labels, entity)}` : `Shared counterparty: ${describeAddress(labels, entity)}`,
+             policyFactor([entity])!,
+             isHub ? ConnectionType.MIDDLEMAN : ConnectionType.SHARED_COUNTERPARTY,
+             { signatures: [a.tx, b.tx], timestamps: [a.time, b.time], counterparty: entity, timeDelta: Math.abs(a.time - b.time) }
+           );
+         }
        }
     }
   });
@@ -194,7 +551,7 @@ export const analyzeConnections = (
     const t = link.target;
     
     // Always keep Direct
-    if (inputAddresses.includes(s) && inputAddresses.includes(t)) {
+    if (inputSet.has(s) && inputSet.has(t)) {
       relevantNodes.add(s); relevantNodes.add(t);
       finalLinks.push(link);
       return;
@@ -204,13 +561,15 @@ export const analyzeConnections = (
     // Actually, we only want to show nodes that connect >= 2 inputs, OR are direct neighbors if depth is small.
     // To minimize clutter, strictly filter for nodes connecting >= 2 inputs
     const isRelevant = (id: string) => {
-       const interactions = interactionLog.get(id);
-       if (!interactions) return false; // program or other
-       const unique = new Set(interactions.map(i => i.input));
+       if (flowNodes.has(id) || inputsByFunder.has(id) || peelNodes.has(id) || assetNodes.has(id) || sponsorNodes.has(id)) return true;
+       if (nodes.get(id)?.highlighted) return true; // Even a single input touching a mixer is worth showing
+       if (clusterParent.has(id) && linkedClusterRoots.has(findRoot(id))) return true;
+       const unique = interactionInputs.get(id);
+       if (!unique) return false; // program or other
        return unique.size >= 2;
     };
     
-    const other = inputAddresses.includes(s) ? t : s;
+    const other = inputSet.has(s) ? t : s;
     if (isRelevant(other) || nodes.get(other)?.group === 'program') {
       relevantNodes.add(s);
       relevantNodes.add(t);
@@ -218,8 +577,35 @@ export const analyzeConnections = (
     }
   });
 
+  // Native value moved along each link, for thickness
+  transfers.forEach(t => {
+    if (t.mint !== NATIVE_MINT) return;
+    const link = links.get([t.from, t.to].sort().join('-'));
+    if (link) link.volume = (link.volume || 0) + t.amount;
+  });
+
   const finalNodes = Array.from(nodes.values()).filter(n => relevantNodes.has(n.id));
-  const summaryPairs = Array.from(connectedPairs.values()).sort((a, b) => b.score - a.score);
+
+  // Highlighted entities and the inputs linked to them
+  const flaggedEntities: FlaggedEntity[] = finalNodes
+    .filter(n => n.highlighted && n.entity)
+    .map(n => ({
+      label: n.entity!,
+      inputs: inputAddresses.filter(addr => links.has([addr, n.id].sort().join('-')))
+    }));
+  // 5. Scoring: every pair's evidence through the active profile, then the overall score from the pairs
+  const summaryPairs: ConnectedPair[] = Array.from(pairEvidence.values())
+    .map(({ addressA, addressB, evidence }) => {
+      const breakdown = scorePair(evidence, scoring);
+      const strongest = breakdown.items[0];
+      return { addressA, addressB, reason: strongest.reason, score: toScore(breakdown.probability), type: strongest.type, breakdown };
+    })
+    .filter(pair => pair.breakdown.probability > 0) // Evidence types weighted 0 drop out entirely
+    .sort((a, b) => b.breakdown.probability - a.breakdown.probability);
+
+  // 6. Entity Clustering: which inputs probably share an owner
+  const entityClusters = clusterEntities(inputAddresses, summaryPairs);
+  entityClusters.forEach(cluster => cluster.members.forEach(addr => { nodes.get(addr)!.cluster = cluster.id; }));
 
   return {
     graph: {
@@ -227,10 +613,26 @@ export const analyzeConnections = (
       links: finalLinks
     },
     summary: {
+      chain: inputAddresses.flatMap(addr => inputs[addr]).find(tx => tx.chain)?.chain ?? null,
       connectedPairs: summaryPairs,
       totalTransactionsScanned: totalTx,
       uniqueCounterparties: uniqueCounterpartiesSet.size,
-      confidenceScore: calculateConfidence(summaryPairs)
+      confidenceScore: scoreOverall(summaryPairs.map(p => p.breakdown.probability), scoring),
+      scoringProfile: scoring.name,
+      // Without fetch metadata we can only describe the window the data spans
+      coverage: Object.fromEntries(inputAddresses.map(addr => [
+        addr,
+        coverage[addr] || buildCoverage(inputs[addr], inputs[addr].length, false)
+      ])),
+      flowPaths,
+      fundingSources,
+      sharedAssets,
+      flaggedEntities,
+      entityClusters,
+      temporalCorrelations,
+      behaviorSimilarities,
+      coSignedTxs,
+      feeSponsors
     }
   };
 };
\ No newline at end of file
@@ -0,0 +1,55 @@
+/// <reference lib="webworker" />
+import { AnalysisWorkerRequest, AnalysisWorkerResponse, FetchedHistories } from '../types';
+import { getChainAdapter } from './chainService';
+import { analyzeFetched, fetchInvestigationData } from './pipelineService';
+
+// Partial results are re-analysed at most this often, and never more than half the time
+const PARTIAL_INTERVAL_MS = 750;
+
+// The last fetched histories, so re-scoring never crosses the thread boundary with them again
+let held: (FetchedHistories & { key: string }) | null = null;
+// Jobs run one after another: a re-score queued behind a fetch sees its data
+let queue: Promise<void> = Promise.resolve();
+
+const post = (message: AnalysisWorkerResponse) => (self as unknown as DedicatedWorkerGlobalScope).postMessage(message);
+
+const runJob = async (request: Extract<AnalysisWorkerRequest, { type: 'analyze' }>) => {
+  const { jobId, chain, addresses, config, fetchKey, labels, scoring, timeRange } = request;
+  const analyze = (fetched: FetchedHistories) => analyzeFetched(fetched, config, { labels, scoring, timeRange });
+  if (request.fetched) held = { key: fetchKey, ...request.fetched };
+
+  let fresh: FetchedHistories | undefined;
+  if (held?.key !== fetchKey) {
+    held = null;
+    let lastPartial = 0;
+    let cost = 0;
+    fresh = await fetchInvestigationData(getChainAdapter(chain), addresses, config, {
+      onStatus: message => post({ type: 'status', jobId, message }),
+      onHistory: (fetched, done, total) => {
+        if (done < 2 || done === total) return; // One wallet links nothing; the last one gets the full result
+        if (Date.now() - lastPartial < Math.max(PARTIAL_INTERVAL_MS, cost * 2)) return;
+        const started = Date.now();
+        const result = analyze(fetched);
+        cost = Date.now() - started;
+        lastPartial = Date.now();
+        post({ type: 'partial', jobId, result, fetchedWallets: done, totalWallets: total });
+      }
+    });
+    held = { key: fetchKey, ...fresh };
+  }
+
+  post({ type: 'status', jobId, message: "Running heuristics & identifying clusters..." });
+  post({ type: 'done', jobId, result: analyze(held), fetched: fresh });
+};
+
+self.addEventListener('message', (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'forget') {
+    queue = queue.then(() => { held = null; });
+    return;
+  }
+  queue = queue.then(() => runJob(request).catch(error => {
+    console.error(error);
+    post({ type: 'error', jobId: request.jobId, message: error instanceof Error ? error.message : String(error) });
+  }));
+});
@@ -0,0 +1,87 @@
+import { SHARED_ASSET_MIN_RARITY, UBIQUITOUS_MINTS } from '../constants';
+import { ChainAdapter, ParsedTxInfo, SharedAsset } from '../types';
+import { TimedTransfer } from './amountService';
+
+type Histories = { [address: string]: ParsedTxInfo[] };
+
+// Distinct NFT mints touched by the inputs whose collection isn't already in the transaction
+const listUnresolvedNftMints = (inputs: Histories): string[] => {
+  const mints = new Set<string>();
+  Object.values(inputs).forEach(txs => {
+    txs.forEach(tx => (tx.assets || []).forEach(a => {
+      if (a.isNft && !a.collection) mints.add(a.mint);
+    }));
+  });
+  return Array.from(mints);
+};
+
+// NFT mint -> collection, for chains whose adapter can look it up. Failures just mean no collections.
+export const resolveNftCollections = async (
+  adapter: ChainAdapter,
+  inputs: Histories
+): Promise<{ [mint: string]: string }> => {
+  if (!adapter.resolveCollections) return {};
+  const mints = listUnresolvedNftMints(inputs);
+  if (mints.length === 0) return {};
+  try {
+    return await adapter.resolveCollections(mints);
+  } catch (error) {
+    console.warn('Failed to resolve NFT collections', error);
+    return {};
+  }
+};
+
+/**
+ * Tokens, NFTs and NFT collections touched by two or more inputs, rarest first.
+ * Rarity = inputs / (inputs + non-input wallets seen moving the asset): a token the inputs'
+ * counterparties trade all day scores near 0, one that only the inputs touch scores 1.
+ */
+export const findSharedAssets = (
+  inputs: Histories,
+  transfers: TimedTransfer[],
+  collections: { [mint: string]: string } = {}
+): SharedAsset[] => {
+  const holders = new Map<string, { kind: SharedAsset['kind']; firstSeen: SharedAsset['firstSeen'] }>();
+  const note = (asset: string, kind: SharedAsset['kind'], input: string, tx: ParsedTxInfo) => {
+    if (!holders.has(asset)) holders.set(asset, { kind, firstSeen: {} });
+    const firstSeen = holders.get(asset)!.firstSeen;
+    if (!firstSeen[input] || tx.blockTime < firstSeen[input].blockTime) {
+      firstSeen[input] = { signature: tx.signature, blockTime: tx.blockTime };
+    }
+  };
+
+  Object.entries(inputs).forEach(([addr, txs]) => {
+    txs.forEach(tx => (tx.assets || []).forEach(a => {
+      if (UBIQUITOUS_MINTS.includes(a.mint)) return;
+      const collection = a.collection || collections[a.mint];
+      // ERC-721 "mints" are the collection contract itself, so count them once
+      if (collection !== a.mint) note(a.mint, a.isNft ? 'nft' : 'token', addr, tx);
+      if (a.isNft && collection) note(collection, 'collection', addr, tx);
+    }));
+  });
+
+  // Non-input wallets seen moving each asset
+  const others = new Map<string, Set<string>>();
+  transfers.forEach(t => {
+    new Set([t.mint, collections[t.mint]]).forEach(asset => {
+      if (!asset || !holders.has(asset)) return;
+      [t.from, t.to].forEach(wallet => {
+        if (inputs[wallet]) return;
+        if (!others.has(asset)) others.set(asset, new Set());
+        others.get(asset)!.add(wallet);
+      });
+    });
+  });
+
+  const shared: SharedAsset[] = [];
+  holders.forEach(({ kind, firstSeen }, asset) => {
+    const holding = Object.keys(firstSeen);
+    if (holding.length < 2) return;
+    const counterparties = others.get(asset)?.size || 0;
+    const rarity = holding.length / (holding.length + counterparties);
+    if (rarity < SHARED_ASSET_MIN_RARITY) return;
+    shared.push({ asset, kind, inputs: holding, firstSeen, counterparties, rarity });
+  });
+
+  return shared.sort((a, b) => b.rarity - a.rarity);
+};
@@ -0,0 +1,140 @@
+import { BEHAVIOR_FEATURE_MATCH, BEHAVIOR_MIN_STRENGTH, BEHAVIOR_MIN_TX, IGNORED_PROGRAMS } from '../constants';
+import { BehaviorFeature, BehaviorMatch, BehaviorSimilarity, ParsedTxInfo } from '../types';
+
+type Histories = { [address: string]: ParsedTxInfo[] };
+type Counts = Map<string, number>;
+
+// Exact fee and compute settings are the strongest tells; everyone's txs share a format
+const FEATURE_WEIGHTS: Record<BehaviorFeature, number> = {
+  priorityFee: 0.25,
+  instructionOrder: 0.25,
+  programs: 0.25,
+  computeLimit: 0.2,
+  txFormat: 0.05,
+};
+
+const FEATURE_NAMES: Record<BehaviorFeature, string> = {
+  programs: 'program mix',
+  instructionOrder: 'instruction order',
+  priorityFee: 'priority fee',
+  computeLimit: 'compute limit',
+  txFormat: 'tx format',
+};
+
+const shortId = (id: string) => id.length > 12 ? `${id.slice(0, 4)}..` : id;
+
+// Values are keyed as strings so fee, limit and sequence counts share one representation
+type Fingerprint = Record<BehaviorFeature, Counts>;
+
+// Each feature's value(s) in one transaction
+const featureValues = (tx: ParsedTxInfo, isIgnored: (address: string) => boolean): Record<BehaviorFeature, string[]> => {
+  const values: Record<BehaviorFeature, string[]> = {
+    programs: tx.programIds.filter(id => !IGNORED_PROGRAMS.includes(id) && !isIgnored(id)),
+    instructionOrder: [],
+    priorityFee: [],
+    computeLimit: [],
+    txFormat: [],
+  };
+  if (!tx.behavior) return values; // Cached before build details were recorded
+  values.instructionOrder.push(tx.behavior.instructions.join(' → '));
+  if (tx.behavior.priorityFee !== undefined) values.priorityFee.push(String(tx.behavior.priorityFee));
+  if (tx.behavior.computeUnitLimit !== undefined) values.computeLimit.push(String(tx.behavior.computeUnitLimit));
+  if (tx.behavior.format) values.txFormat.push(tx.behavior.format);
+  return values;
+};
+
+const buildFingerprint = (txs: ParsedTxInfo[], isIgnored: (address: string) => boolean): Fingerprint => {
+  const fingerprint = Object.fromEntries(
+    (Object.keys(FEATURE_WEIGHTS) as BehaviorFeature[]).map(feature => [feature, new Map()])
+  ) as Fingerprint;
+  txs.forEach(tx => {
+    const values = featureValues(tx, isIgnored);
+    (Object.keys(values) as BehaviorFeature[]).forEach(feature =>
+      values[feature].forEach(value => fingerprint[feature].set(value, (fingerprint[feature].get(value) || 0) + 1))
+    );
+  });
+  return fingerprint;
+};
+
+const cosineSimilarity = (a: Counts, b: Counts) => {
+  let dot = 0, normA = 0, normB = 0;
+  a.forEach((v, key) => {
+    dot += v * (b.get(key) || 0);
+    normA += v * v;
+  });
+  b.forEach(v => { normB += v * v; });
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// The value both wallets use most (by the smaller of the two counts)
+const mostShared = (a: Counts, b: Counts): string | undefined => {
+  let best: string | undefined;
+  let bestCount = 0;
+  a.forEach((v, key) => {
+    const shared = Math.min(v, b.get(key) || 0);
+    if (shared > bestCount) {
+      best = key;
+      bestCount = shared;
+    }
+  });
+  return best;
+};
+
+const formatShared = (feature: BehaviorFeature, value: string) => {
+  if (feature === 'programs') return shortId(value);
+  if (feature === 'instructionOrder') return value.split(' → ').map(shortId).join(' → ');
+  return value;
+};
+
+// "priority fee 50000, instruction order JUP6.. → Toke.. (92%)"-style summary of the matching features
+export const describeBehaviorMatches = (matches: BehaviorMatch[]) =>
+  matches
+    .filter(m => m.similarity >= BEHAVIOR_FEATURE_MATCH)
+    .map(m => `${FEATURE_NAMES[m.feature]}${m.shared ? ` ${formatShared(m.feature, m.shared)}` : ''} (${Math.round(m.similarity * 100)}%)`)
+    .join(', ');
+
+/**
+ * Compares every pair of inputs with at least BEHAVIOR_MIN_TX transactions, feature by feature
+ * (cosine over each wallet's value counts), and keeps pairs whose weighted sum reaches
+ * BEHAVIOR_MIN_STRENGTH. A feature only one wallet has data for counts as no match.
+ */
+export const findBehaviorSimilarities = (
+  inputs: Histories,
+  isIgnored: (address: string) => boolean = () => false
+): BehaviorSimilarity[] => {
+  const fingerprints = Object.entries(inputs)
+    .filter(([, txs]) => txs.length >= BEHAVIOR_MIN_TX)
+    .map(([address, txs]) => ({ address, fingerprint: buildFingerprint(txs, isIgnored) }));
+
+  const similarities: BehaviorSimilarity[] = [];
+  for (let i = 0; i < fingerprints.length; i++) {
+    for (let j = i + 1; j < fingerprints.length; j++) {
+      const a = fingerprints[i];
+      const b = fingerprints[j];
+      const matches: BehaviorMatch[] = (Object.keys(FEATURE_WEIGHTS) as BehaviorFeature[])
+        .filter(feature => a.fingerprint[feature].size > 0 && b.fingerprint[feature].size > 0)
+        .map(feature => ({
+          feature,
+          similarity: cosineSimilarity(a.fingerprint[feature], b.fingerprint[feature]),
+          shared: mostShared(a.fingerprint[feature], b.fingerprint[feature])
+        }))
+        .sort((x, y) => FEATURE_WEIGHTS[y.feature] * y.similarity - FEATURE_WEIGHTS[x.feature] * x.similarity);
+
+      const strength = matches.reduce((sum, m) => sum + FEATURE_WEIGHTS[m.feature] * m.similarity, 0);
+      if (strength < BEHAVIOR_MIN_STRENGTH) continue;
+
+      // One tx per wallet showing the strongest shared value, as evidence to look at
+      const top = matches.find(m => m.shared && m.similarity >= BEHAVIOR_FEATURE_MATCH);
+      const example = (address: string) => top
+        ? inputs[address].find(tx => featureValues(tx, isIgnored)[top.feature].includes(top.shared!))
+        : undefined;
+      const examples = [example(a.address), example(b.address)]
+        .filter((tx): tx is ParsedTxInfo => !!tx)
+        .map(tx => ({ signature: tx.signature, blockTime: tx.blockTime }));
+
+      similarities.push({ addressA: a.address, addressB: b.address, matches, examples, strength });
+    }
+  }
+
+  return similarities.sort((a, b) => b.strength - a.strength);
+};
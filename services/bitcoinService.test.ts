@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { parseEsploraTransaction } from './bitcoinService';
+
+const A = 'bc1qaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+const B = 'bc1qbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+const F = 'bc1qffffffffffffffffffffffffffffffffffffff';
+
+// F pays A and B
+const tx = {
+  txid: 't1',
+  vin: [{ is_coinbase: false, prevout: { scriptpubkey_address: F, scriptpubkey_type: 'v0_p2wpkh', value: 50_000_000 } }],
+  vout: [A, B].map(addr => ({ scriptpubkey_address: addr, scriptpubkey_type: 'v0_p2wpkh', value: 10_000_000 })),
+  status: { confirmed: true, block_time: 1000 },
+};
+
+describe('parseEsploraTransaction', () => {
+  it('lists the payees for the wallet that funded the tx', () => {
+    expect(parseEsploraTransaction(tx, F)!.recipients).toEqual([A, B]);
+  });
+
+  it('lists no payees for a wallet that only received', () => {
+    const parsed = parseEsploraTransaction(tx, A)!;
+    expect(parsed.recipients).toEqual([]);
+    expect(parsed.transfers!.map(t => [t.from, t.to])).toEqual([[F, A], [F, B]]);
+  });
+});
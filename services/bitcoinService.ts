@@ -0,0 +1,246 @@
+import { ROUND_AMOUNT_SATS, FUNDING_TX_COUNT, FUNDING_MAX_SIGNATURE_PAGES, NATIVE_MINT } from '../constants';
+import { ChainAdapter, ChainId, HistoryOptions, ParsedTxInfo, TransactionHistory } from '../types';
+import { DEFAULT_HISTORY_OPTIONS, buildCoverage, effectiveLimit, isWithinRange, toTransfer } from './historyService';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Subset of the Esplora transaction format (blockstream.info / mempool.space / electrs)
+interface EsploraOutput {
+  scriptpubkey_address?: string;
+  scriptpubkey_type: string;
+  value: number;
+}
+
+interface EsploraInput {
+  is_coinbase: boolean;
+  prevout: EsploraOutput | null;
+}
+
+interface EsploraTx {
+  txid: string;
+  fee?: number;
+  vin: EsploraInput[];
+  vout: EsploraOutput[];
+  status: { confirmed: boolean; block_time?: number };
+}
+
+const SATS_PER_BTC = 100_000_000;
+
+// Mainnet, testnet and regtest (for local fixture servers): base58 P2PKH/P2SH and bech32/bech32m
+const BTC_ADDRESS_REGEX = /^([13mn2][1-9A-HJ-NP-Za-km-z]{25,34}|(bc1|tb1|bcrt1)[02-9ac-hj-np-z]{11,71})$/;
+
+// Bech32 is case-insensitive, base58 is not
+export const normalizeBitcoinAddress = (address: string): string => {
+  const trimmed = address.trim();
+  return /^(bc1|tb1|bcrt1)/i.test(trimmed) ? trimmed.toLowerCase() : trimmed;
+};
+
+export const validateBitcoinAddress = (address: string): boolean => BTC_ADDRESS_REGEX.test(normalizeBitcoinAddress(address));
+
+// Fetches JSON from the first Esplora base URL that answers. An aborted `signal` cancels the
+// request in flight and is not retried elsewhere.
+const fetchWithFallback = async <T>(endpoints: string[], path: string, signal?: AbortSignal): Promise<T> => {
+  let lastError: any;
+
+  for (const base of endpoints) {
+    try {
+      const res = await fetch(`${base}${path}`, { signal });
+      if (!res.ok) throw new Error(`HTTP ${res.status} from ${base}`);
+      return await res.json() as T;
+    } catch (error: any) {
+      if (signal?.aborted) throw error;
+      console.warn(`Esplora Error on ${base}:`, error?.message || error);
+      lastError = error;
+      await sleep(300);
+    }
+  }
+
+  throw lastError || new Error("All Esplora endpoints failed");
+};
+
+/**
+ * Change-output heuristics, most reliable first:
+ * 1. Address reuse - an output paying back to one of the input addresses.
+ * 2. Two-output payments - the only output sharing the inputs' script type, or the only non-round amount.
+ */
+export const detectChangeOutput = (inputs: EsploraOutput[], outputs: EsploraOutput[]): string | undefined => {
+  const inputAddresses = new Set(inputs.map(i => i.scriptpubkey_address).filter(Boolean));
+  const spendable = outputs.filter(o => o.scriptpubkey_address);
+
+  const reused = spendable.find(o => inputAddresses.has(o.scriptpubkey_address));
+  if (reused) return reused.scriptpubkey_address;
+
+  if (spendable.length !== 2 || inputs.length === 0) return undefined;
+
+  const inputTypes = new Set(inputs.map(i => i.scriptpubkey_type));
+  if (inputTypes.size === 1) {
+    const sameType = spendable.filter(o => inputTypes.has(o.scriptpubkey_type));
+    if (sameType.length === 1) return sameType[0].scriptpubkey_address;
+  }
+
+  const isRound = (o: EsploraOutput) => o.value % ROUND_AMOUNT_SATS === 0;
+  const [a, b] = spendable;
+  if (isRound(a) && !isRound(b)) return b.scriptpubkey_address;
+  if (isRound(b) && !isRound(a)) return a.scriptpubkey_address;
+
+  return undefined;
+};
+
+export const parseEsploraTransaction = (tx: EsploraTx, monitoredAddress: string): ParsedTxInfo | null => {
+  const spentOutputs = tx.vin
+    .filter(i => !i.is_coinbase && i.prevout)
+    .map(i => i.prevout!);
+
+  const inputAddresses = [...new Set(
+    spentOutputs.map(o => o.scriptpubkey_address).filter((a): a is string => !!a)
+  )];
+  const changeAddress = detectChangeOutput(spentOutputs, tx.vout);
+
+  // Prefer the monitored wallet as "sender" when it funded the tx, otherwise the first input
+  const sender = inputAddresses.includes(monitoredAddress)
+    ? monitoredAddress
+    : inputAddresses[0] || 'coinbase';
+
+  // Recipients are real payees: outputs that are neither inputs nor change. Only a wallet that funded
+  // the tx paid them; one that merely received alongside them has no counterparties here.
+  const inputSet = new Set(inputAddresses);
+  const recipients = !inputSet.has(monitoredAddress) ? [] : [...new Set(
+    tx.vout
+      .map(o => o.scriptpubkey_address)
+      .filter((a): a is string => !!a && !inputSet.has(a) && a !== changeAddress)
+  )];
+
+  // Every output is a movement from the (jointly owned) inputs; change shows up as a transfer to self-owned change
+  const transfers = sender === 'coinbase' ? [] : tx.vout
+    .filter(o => o.scriptpubkey_address && !inputSet.has(o.scriptpubkey_address))
+    .map(o => toTransfer(sender, o.scriptpubkey_address!, NATIVE_MINT, o.value / SATS_PER_BTC, monitoredAddress));
+
+  return {
+    chain: ChainId.BITCOIN,
+    signature: tx.txid,
+    blockTime: tx.status.block_time || 0,
+    sender,
+    recipients,
+    programIds: [],
+    transfers,
+    fee: tx.fee !== undefined ? tx.fee / SATS_PER_BTC : undefined,
+    inputAddresses,
+    changeAddress
+  };
+};
+
+export const fetchBitcoinTransactionHistory = async (
+  endpoints: string[],
+  address: string,
+  options: HistoryOptions = DEFAULT_HISTORY_OPTIONS,
+  signal?: AbortSignal
+): Promise<TransactionHistory> => {
+  const normalized = normalizeBitcoinAddress(address);
+  const target = effectiveLimit(options);
+
+  try {
+    const parsedTxs: ParsedTxInfo[] = [];
+    let lastSeen: string | null = options.beforeSignature || null;
+    let listed = 0;
+    let complete = false;
+
+    // Esplora pages confirmed history 25 txs at a time, keyed by the last seen txid
+    while (parsedTxs.length < target) {
+      const path: string = lastSeen
+        ? `/address/${normalized}/txs/chain/${lastSeen}`
+        : `/address/${normalized}/txs`;
+      const page = await fetchWithFallback<EsploraTx[]>(endpoints, path, signal);
+      listed += page.length;
+
+      let reachedStop = false;
+      for (const tx of page) {
+        if (options.untilSignature && tx.txid === options.untilSignature) {
+          reachedStop = true;
+          break;
+        }
+        const blockTime = tx.status.block_time || 0;
+        if (options.fromTime !== undefined && blockTime && blockTime < options.fromTime) {
+          reachedStop = true;
+          break;
+        }
+        if (!isWithinRange(blockTime || Date.now() / 1000, options)) continue;
+        const info = parseEsploraTransaction(tx, normalized);
+        if (info) parsedTxs.push(info);
+      }
+
+      const confirmed = page.filter(tx => tx.status.confirmed);
+      if (reachedStop || confirmed.length === 0 || confirmed[confirmed.length - 1].txid === lastSeen) {
+        complete = true;
+        break;
+      }
+      lastSeen = confirmed[confirmed.length - 1].txid;
+
+      await sleep(300);
+    }
+
+    const transactions = parsedTxs.slice(0, target);
+    return {
+      transactions,
+      coverage: buildCoverage(transactions, listed, complete && parsedTxs.length <= target)
+    };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error(`Final error fetching for ${address}:`, error);
+    return { transactions: [], coverage: buildCoverage([], 0, false) };
+  }
+};
+
+// Pages confirmed history back to the first tx and returns the oldest `count` (oldest first)
+export const fetchEarliestBitcoinTransactions = async (
+  endpoints: string[],
+  address: string,
+  count: number = FUNDING_TX_COUNT,
+  signal?: AbortSignal
+): Promise<TransactionHistory> => {
+  const normalized = normalizeBitcoinAddress(address);
+
+  try {
+    let tail: EsploraTx[] = [];
+    let lastSeen: string | null = null;
+    let listed = 0;
+    let reachedFirst = false;
+
+    for (let page = 0; page < FUNDING_MAX_SIGNATURE_PAGES; page++) {
+      const path: string = lastSeen
+        ? `/address/${normalized}/txs/chain/${lastSeen}`
+        : `/address/${normalized}/txs/chain`;
+      const txs = await fetchWithFallback<EsploraTx[]>(endpoints, path, signal);
+      listed += txs.length;
+      tail = [...tail, ...txs].slice(-count);
+
+      // Esplora returns 25 confirmed txs per page, so a short page is the last one
+      if (txs.length < 25 || txs[txs.length - 1].txid === lastSeen) {
+        reachedFirst = true;
+        break;
+      }
+      lastSeen = txs[txs.length - 1].txid;
+      await sleep(300);
+    }
+
+    const transactions = tail
+      .map(tx => parseEsploraTransaction(tx, normalized))
+      .filter((tx): tx is ParsedTxInfo => !!tx)
+      .sort((a, b) => a.blockTime - b.blockTime);
+    return { transactions, coverage: buildCoverage(transactions, listed, reachedFirst) };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error(`Failed to locate earliest transactions for ${address}:`, error);
+    return { transactions: [], coverage: buildCoverage([], 0, false) };
+  }
+};
+
+export const createBitcoinAdapter = (endpoints: string[], signal?: AbortSignal): ChainAdapter => ({
+  id: ChainId.BITCOIN,
+  name: 'Bitcoin Mainnet',
+  addressLabel: 'Bitcoin',
+  validateAddress: validateBitcoinAddress,
+  normalizeAddress: normalizeBitcoinAddress,
+  explorerTxUrl: (txid) => `https://mempool.space/tx/${txid}`,
+  fetchTransactionHistory: (address, options) => fetchBitcoinTransactionHistory(endpoints, address, options, signal),
+  fetchEarliestTransactions: (address, count) => fetchEarliestBitcoinTransactions(endpoints, address, count, signal),
+});
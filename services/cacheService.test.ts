@@ -0,0 +1,43 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import { ChainAdapter, ChainId, HistoryOptions, ParsedTxInfo, TransactionHistory } from '../types';
+import { fetchHistoryWithCache } from './cacheService';
+import { buildCoverage } from './historyService';
+
+const tx = (signature: string, blockTime: number): ParsedTxInfo => ({
+  chain: ChainId.SOLANA, signature, blockTime, sender: 'x', recipients: [], programIds: [],
+});
+
+// An adapter serving `pages` as the newest txs, one per call, with nothing older than them
+const adapterServing = (...pages: TransactionHistory[]) => {
+  const fetchTransactionHistory = vi.fn(async (_address: string, options?: HistoryOptions) =>
+    options?.beforeSignature ? { transactions: [], coverage: buildCoverage([], 0, true) } : pages.shift()!);
+  return { id: ChainId.SOLANA, fetchTransactionHistory } as unknown as ChainAdapter & { fetchTransactionHistory: typeof fetchTransactionHistory };
+};
+
+describe('fetchHistoryWithCache', () => {
+  it('keeps a history with missing transactions out of the cache', async () => {
+    const gapped = [tx('s2', 2000), tx('s1', 1000)];
+    const full = [tx('s3', 3000), tx('s2', 2000), tx('s1', 1000)];
+    const adapter = adapterServing(
+      { transactions: gapped, coverage: buildCoverage(gapped, 3, true, 1) },
+      { transactions: full, coverage: buildCoverage(full, 3, true) },
+    );
+
+    const first = await fetchHistoryWithCache(adapter, 'gapped', { limit: 10 });
+    expect(first.coverage.complete).toBe(false);
+
+    // Nothing was cached, so the second fetch starts over instead of asking only for newer txs
+    const second = await fetchHistoryWithCache(adapter, 'gapped', { limit: 10 });
+    expect(adapter.fetchTransactionHistory.mock.calls.every(([, options]) => !options?.untilSignature)).toBe(true);
+    expect(second.transactions.map(t => t.signature)).toEqual(['s3', 's2', 's1']);
+  });
+
+  it('does not retry a cancelled fetch', async () => {
+    const adapter = adapterServing();
+    adapter.fetchTransactionHistory.mockRejectedValue(new DOMException('Cancelled', 'AbortError'));
+
+    await expect(fetchHistoryWithCache(adapter, 'cancelled', { limit: 10 })).rejects.toThrow('Cancelled');
+    expect(adapter.fetchTransactionHistory).toHaveBeenCalledTimes(1);
+  });
+});
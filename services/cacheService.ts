@@ -0,0 +1,245 @@
+import { ChainAdapter, ChainId, HistoryOptions, ParsedTxInfo, TransactionHistory } from '../types';
+import { buildCoverage, effectiveLimit, isWithinRange } from './historyService';
+import { HISTORY_FETCH_CONCURRENCY } from '../constants';
+
+const DB_NAME = 'nexustracker-cache';
+const DB_VERSION = 1;
+const TX_STORE = 'transactions';
+const ADDRESS_STORE = 'addresses';
+
+// Per-address record: a contiguous run of known signatures, newest first
+interface AddressRecord {
+  key: string;
+  chain: ChainId;
+  address: string;
+  signatures: string[];
+  reachedStart: boolean; // The oldest signature is the wallet's first transaction
+  updatedAt: number;
+}
+
+interface CachedTx extends ParsedTxInfo {
+  key: string;
+}
+
+export interface CacheStats {
+  transactions: number;
+  addresses: number;
+}
+
+const txKey = (chain: ChainId, signature: string) => `${chain}:${signature}`;
+const addressKey = (chain: ChainId, address: string) => `${chain}:${address}`;
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const isCacheAvailable = () => typeof indexedDB !== 'undefined';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TX_STORE)) db.createObjectStore(TX_STORE, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(ADDRESS_STORE)) db.createObjectStore(ADDRESS_STORE, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const loadAddressRecord = async (chain: ChainId, address: string): Promise<AddressRecord | undefined> => {
+  const db = await openDb();
+  const store = db.transaction(ADDRESS_STORE, 'readonly').objectStore(ADDRESS_STORE);
+  return requestToPromise<AddressRecord | undefined>(store.get(addressKey(chain, address)));
+};
+
+const loadTransactions = async (chain: ChainId, signatures: string[]): Promise<Map<string, ParsedTxInfo>> => {
+  const db = await openDb();
+  const store = db.transaction(TX_STORE, 'readonly').objectStore(TX_STORE);
+  const rows = await Promise.all(
+    signatures.map(sig => requestToPromise<CachedTx | undefined>(store.get(txKey(chain, sig))))
+  );
+
+  const found = new Map<string, ParsedTxInfo>();
+  rows.forEach(row => {
+    if (!row) return;
+    const { key, ...info } = row;
+    found.set(info.signature, info);
+  });
+  return found;
+};
+
+const saveHistory = async (record: AddressRecord, transactions: ParsedTxInfo[]) => {
+  const db = await openDb();
+  const tx = db.transaction([TX_STORE, ADDRESS_STORE], 'readwrite');
+  const txStore = tx.objectStore(TX_STORE);
+  transactions.forEach(info => txStore.put({ ...info, key: txKey(info.chain, info.signature) }));
+  tx.objectStore(ADDRESS_STORE).put(record);
+  await transactionDone(tx);
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  if (!isCacheAvailable()) return { transactions: 0, addresses: 0 };
+  const db = await openDb();
+  const tx = db.transaction([TX_STORE, ADDRESS_STORE], 'readonly');
+  const [transactions, addresses] = await Promise.all([
+    requestToPromise(tx.objectStore(TX_STORE).count()),
+    requestToPromise(tx.objectStore(ADDRESS_STORE).count()),
+  ]);
+  return { transactions, addresses };
+};
+
+export const purgeCache = async () => {
+  if (!isCacheAvailable()) return;
+  const db = await openDb();
+  const tx = db.transaction([TX_STORE, ADDRESS_STORE], 'readwrite');
+  tx.objectStore(TX_STORE).clear();
+  tx.objectStore(ADDRESS_STORE).clear();
+  await transactionDone(tx);
+};
+
+/**
+ * Cache-aware wrapper around `adapter.fetchTransactionHistory`.
+ * 1. Only signatures newer than the cached head are fetched (`untilSignature`).
+ * 2. If the cached run doesn't cover the requested range, it is extended backwards (`beforeSignature`).
+ * Time filtering happens locally so the cached run stays gap-free. A page with `missing` transactions
+ * would leave holes in it, so such a fetch is served but not saved; the next one lists them again.
+ */
+export const fetchHistoryWithCache = async (
+  adapter: ChainAdapter,
+  address: string,
+  options: HistoryOptions
+): Promise<TransactionHistory> => {
+  if (!isCacheAvailable()) return adapter.fetchTransactionHistory(address, options);
+
+  try {
+    const target = effectiveLimit(options);
+    const record = await loadAddressRecord(adapter.id, address);
+    let signatures = record?.signatures || [];
+    let reachedStart = record?.reachedStart || false;
+    const fresh = new Map<string, ParsedTxInfo>();
+    let gapped = false;
+    const remember = (history: TransactionHistory) => {
+      history.transactions.forEach(tx => fresh.set(tx.signature, tx));
+      if (history.coverage.missing) gapped = true;
+    };
+
+    // 1. Newer than the cached head
+    if (signatures.length > 0) {
+      const newer = await adapter.fetchTransactionHistory(address, { limit: target, untilSignature: signatures[0] });
+      remember(newer);
+      if (!newer.coverage.complete && newer.transactions.length > 0) {
+        // More new txs than we asked for: the run would have a gap, so restart it from the new page
+        signatures = [];
+        reachedStart = false;
+      }
+      signatures = [...newer.transactions.map(tx => tx.signature), ...signatures];
+    }
+
+    // 2. Extend backwards until enough in-range transactions are known
+    let rangeCovered = false;
+    while (!reachedStart && !rangeCovered) {
+      const known = await loadTransactions(adapter.id, signatures.filter(sig => !fresh.has(sig)));
+      fresh.forEach((tx, sig) => known.set(sig, tx));
+      const inRange = signatures.filter(sig => known.has(sig) && isWithinRange(known.get(sig)!.blockTime, options));
+      if (inRange.length >= target) break;
+
+      // The cached run already reaches past the start of the requested window
+      const oldest = known.get(signatures[signatures.length - 1]);
+      if (options.fromTime !== undefined && oldest && oldest.blockTime < options.fromTime) {
+        rangeCovered = true;
+        break;
+      }
+
+      const older = await adapter.fetchTransactionHistory(address, {
+        limit: target - inRange.length,
+        fromTime: options.fromTime,
+        beforeSignature: signatures[signatures.length - 1],
+      });
+      remember(older);
+      signatures = [...signatures, ...older.transactions.map(tx => tx.signature)];
+
+      if (older.coverage.complete) {
+        if (options.fromTime === undefined) reachedStart = true;
+        rangeCovered = true;
+      }
+      if (older.transactions.length === 0) break;
+    }
+
+    if (!gapped) {
+      await saveHistory({
+        key: addressKey(adapter.id, address),
+        chain: adapter.id,
+        address,
+        signatures,
+        reachedStart,
+        updatedAt: Date.now(),
+      }, Array.from(fresh.values()));
+    }
+
+    // 3. Serve the requested slice
+    const known = await loadTransactions(adapter.id, signatures.filter(sig => !fresh.has(sig)));
+    fresh.forEach((tx, sig) => known.set(sig, tx));
+    const inRange = signatures
+      .map(sig => known.get(sig))
+      .filter((tx): tx is ParsedTxInfo => !!tx && isWithinRange(tx.blockTime, options));
+    const transactions = inRange.slice(0, target);
+    const complete = !gapped && inRange.length <= target && (reachedStart || rangeCovered || inRange.length < target);
+
+    const servedFromRpc = transactions.filter(tx => fresh.has(tx.signature)).length;
+    return {
+      transactions,
+      coverage: {
+        ...buildCoverage(transactions, signatures.length, complete),
+        fromCache: transactions.length - servedFromRpc,
+      },
+    };
+  } catch (error) {
+    // A cancelled fetch isn't a cache failure; retrying it directly would only fail again
+    if ((error as Error)?.name === 'AbortError') throw error;
+    console.warn(`Cache unavailable for ${address}, fetching directly`, error);
+    return adapter.fetchTransactionHistory(address, options);
+  }
+};
+
+/**
+ * Every input's history, HISTORY_FETCH_CONCURRENCY at a time so hundreds of wallets don't
+ * take hundreds of round trips end to end. Results are keyed by address, in input order.
+ */
+export const fetchHistoriesWithCache = async (
+  adapter: ChainAdapter,
+  addresses: string[],
+  options: HistoryOptions,
+  onProgress?: (done: number, total: number, address: string, history: TransactionHistory) => void
+): Promise<{ [address: string]: TransactionHistory }> => {
+  const results = new Map<string, TransactionHistory>();
+  let next = 0;
+  const worker = async () => {
+    while (next < addresses.length) {
+      const address = addresses[next++];
+      const history = await fetchHistoryWithCache(adapter, address, options);
+      results.set(address, history);
+      onProgress?.(results.size, addresses.length, address, history);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(HISTORY_FETCH_CONCURRENCY, addresses.length) }, worker));
+  return Object.fromEntries(addresses.map(address => [address, results.get(address)!]));
+};
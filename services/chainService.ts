@@ -0,0 +1,48 @@
+import { RPC_ENDPOINTS, ETHEREUM_RPC_ENDPOINTS, BASE_RPC_ENDPOINTS, ESPLORA_API_ENDPOINTS } from '../constants';
+import { ChainAdapter, ChainId } from '../types';
+import { createSolanaAdapter } from './solanaService';
+import { createEvmAdapter } from './evmService';
+import { createBitcoinAdapter } from './bitcoinService';
+
+// A single EVM_RPC_URL (e.g. a local node or JSON-RPC stand-in) takes precedence over the public endpoints
+const evmEndpoints = (defaults: string[]) => process.env.EVM_RPC_URL ? [process.env.EVM_RPC_URL] : defaults;
+
+/**
+ * A chain's adapter talking to `endpoints` (tried in order), or to the configured defaults.
+ * Bitcoin endpoints are Esplora-compatible REST APIs; the others are JSON-RPC. Aborting `signal`
+ * cancels the adapter's requests in flight.
+ */
+export const createChainAdapter = (chain: ChainId, endpoints?: string[], signal?: AbortSignal): ChainAdapter => {
+  switch (chain) {
+    case ChainId.SOLANA:
+      return createSolanaAdapter(endpoints ?? RPC_ENDPOINTS, signal);
+    case ChainId.ETHEREUM:
+      return createEvmAdapter({
+        id: ChainId.ETHEREUM,
+        name: 'Ethereum Mainnet',
+        rpcEndpoints: endpoints ?? evmEndpoints(ETHEREUM_RPC_ENDPOINTS),
+        explorerUrl: 'https://etherscan.io',
+      }, signal);
+    case ChainId.BASE:
+      return createEvmAdapter({
+        id: ChainId.BASE,
+        name: 'Base Mainnet',
+        rpcEndpoints: endpoints ?? evmEndpoints(BASE_RPC_ENDPOINTS),
+        explorerUrl: 'https://basescan.org',
+      }, signal);
+    case ChainId.BITCOIN:
+      return createBitcoinAdapter(
+        endpoints ?? (process.env.ESPLORA_API_URL ? [process.env.ESPLORA_API_URL] : ESPLORA_API_ENDPOINTS),
+        signal
+      );
+  }
+};
+
+export const CHAIN_ADAPTERS: Record<ChainId, ChainAdapter> = {
+  [ChainId.SOLANA]: createChainAdapter(ChainId.SOLANA),
+  [ChainId.ETHEREUM]: createChainAdapter(ChainId.ETHEREUM),
+  [ChainId.BASE]: createChainAdapter(ChainId.BASE),
+  [ChainId.BITCOIN]: createChainAdapter(ChainId.BITCOIN),
+};
+
+export const getChainAdapter = (chain: ChainId): ChainAdapter => CHAIN_ADAPTERS[chain];
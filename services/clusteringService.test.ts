@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { ConnectedPair, ConnectionType } from '../types';
+import { clusterEntities } from './clusteringService';
+
+// Only the score and probability matter to clustering
+const pair = (addressA: string, addressB: string, score: number): ConnectedPair => ({
+  addressA, addressB, score, reason: '', type: ConnectionType.CO_SPEND,
+  breakdown: { probability: score / 100 } as ConnectedPair['breakdown'],
+});
+
+describe('clusterEntities', () => {
+  it('ties wallets into one entity through its weakest link', () => {
+    const clusters = clusterEntities(['a', 'b', 'c'], [pair('a', 'b', 90), pair('b', 'c', 60)]);
+    expect(clusters).toEqual([expect.objectContaining({
+      members: ['a', 'b', 'c'],
+      confidence: 60,
+      weakestLink: { addressA: 'b', addressB: 'c', score: 60 },
+    })]);
+  });
+
+  it('leaves wallets linked below the minimum score apart', () => {
+    expect(clusterEntities(['a', 'b'], [pair('a', 'b', 10)])).toEqual([]);
+  });
+});
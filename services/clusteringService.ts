@@ -0,0 +1,144 @@
+import { CLUSTER_CORE_SCORE, CLUSTER_MIN_SCORE } from '../constants';
+import { ConnectedPair, EntityCluster } from '../types';
+
+// Local-moving passes before community detection gives up on converging
+const MAX_PASSES = 20;
+
+const createUnionFind = (items: string[]) => {
+  const parent = new Map(items.map(i => [i, i]));
+  const find = (item: string): string => {
+    let root = item;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(item, root); // Path compression
+    return root;
+  };
+  const union = (a: string, b: string) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent.set(ra, rb);
+  };
+  return { find, union };
+};
+
+/**
+ * Louvain-style local moving: each node joins the neighbouring community with the best
+ * modularity gain until nothing moves. `selfWeight` is weight already inside a node (merged cores).
+ */
+const detectCommunities = (
+  nodes: string[],
+  adjacency: Map<string, Map<string, number>>,
+  selfWeight: Map<string, number>
+): Map<string, string> => {
+  const community = new Map(nodes.map(n => [n, n]));
+  const degree = new Map(nodes.map(n => [
+    n,
+    2 * (selfWeight.get(n) || 0) + Array.from(adjacency.get(n)?.values() || []).reduce((a, b) => a + b, 0)
+  ]));
+  const totalDegree = Array.from(degree.values()).reduce((a, b) => a + b, 0); // 2m
+  if (totalDegree === 0) return community;
+  const communityDegree = new Map(degree);
+
+  let moved = true;
+  for (let pass = 0; moved && pass < MAX_PASSES; pass++) {
+    moved = false;
+    nodes.forEach(node => {
+      const current = community.get(node)!;
+      const k = degree.get(node)!;
+
+      const weightTo = new Map<string, number>();
+      adjacency.get(node)?.forEach((w, neighbour) => {
+        const c = community.get(neighbour)!;
+        weightTo.set(c, (weightTo.get(c) || 0) + w);
+      });
+
+      communityDegree.set(current, communityDegree.get(current)! - k);
+      let best = current;
+      let bestGain = (weightTo.get(current) || 0) - communityDegree.get(current)! * k / totalDegree;
+      weightTo.forEach((w, c) => {
+        const gain = w - communityDegree.get(c)! * k / totalDegree;
+        if (gain > bestGain) {
+          best = c;
+          bestGain = gain;
+        }
+      });
+      communityDegree.set(best, communityDegree.get(best)! + k);
+
+      if (best !== current) {
+        community.set(node, best);
+        moved = true;
+      }
+    });
+  }
+
+  return community;
+};
+
+/**
+ * Groups input wallets into probable owners:
+ * 1. Union-find over pairs scoring at least CLUSTER_CORE_SCORE (near-certain links).
+ * 2. Community detection over the remaining weighted pair graph, with each core as one node.
+ * A cluster's confidence is its weakest tie: the lowest pair score on the maximum spanning tree.
+ */
+export const clusterEntities = (inputAddresses: string[], pairs: ConnectedPair[]): EntityCluster[] => {
+  const usable = pairs.filter(p => p.score >= CLUSTER_MIN_SCORE);
+
+  // 1. Cores
+  const cores = createUnionFind(inputAddresses);
+  usable.filter(p => p.score >= CLUSTER_CORE_SCORE).forEach(p => cores.union(p.addressA, p.addressB));
+
+  // 2. Communities over the core graph
+  const adjacency = new Map<string, Map<string, number>>();
+  const selfWeight = new Map<string, number>();
+  usable.forEach(p => {
+    const a = cores.find(p.addressA);
+    const b = cores.find(p.addressB);
+    const w = p.breakdown.probability;
+    if (a === b) {
+      selfWeight.set(a, (selfWeight.get(a) || 0) + w);
+      return;
+    }
+    if (!adjacency.has(a)) adjacency.set(a, new Map());
+    if (!adjacency.has(b)) adjacency.set(b, new Map());
+    adjacency.get(a)!.set(b, (adjacency.get(a)!.get(b) || 0) + w);
+    adjacency.get(b)!.set(a, (adjacency.get(b)!.get(a) || 0) + w);
+  });
+  const roots = Array.from(new Set(inputAddresses.map(cores.find)));
+  const community = detectCommunities(roots, adjacency, selfWeight);
+
+  const membersByCommunity = new Map<string, string[]>();
+  inputAddresses.forEach(addr => {
+    const c = community.get(cores.find(addr))!;
+    if (!membersByCommunity.has(c)) membersByCommunity.set(c, []);
+    membersByCommunity.get(c)!.push(addr);
+  });
+
+  // 3. Confidence: Kruskal over the cluster's own pairs, strongest first
+  const clusters: Omit<EntityCluster, 'id'>[] = [];
+  membersByCommunity.forEach(members => {
+    if (members.length < 2) return;
+    const memberSet = new Set(members);
+    const tree = createUnionFind(members);
+    let joined = 1;
+    let weakest: ConnectedPair | null = null;
+    usable
+      .filter(p => memberSet.has(p.addressA) && memberSet.has(p.addressB))
+      .sort((a, b) => b.breakdown.probability - a.breakdown.probability)
+      .forEach(p => {
+        if (tree.find(p.addressA) === tree.find(p.addressB)) return;
+        tree.union(p.addressA, p.addressB);
+        joined++;
+        weakest = p;
+      });
+    if (!weakest || joined < members.length) return; // Not actually tied together
+    const link: ConnectedPair = weakest;
+    clusters.push({
+      members,
+      confidence: link.score,
+      weakestLink: { addressA: link.addressA, addressB: link.addressB, score: link.score }
+    });
+  });
+
+  return clusters
+    .sort((a, b) => b.members.length - a.members.length || b.confidence - a.confidence)
+    .map((cluster, i) => ({ id: i + 1, ...cluster }));
+};
@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChainId } from '../types';
+import { fetchEvmTransactionHistory, parseEvmTransaction } from './evmService';
+import { ERC20_TRANSFER_TOPIC } from '../constants';
+
+const WALLET = `0x${'a'.repeat(40)}`;
+const OTHER = `0x${'b'.repeat(40)}`;
+const HEAD = 20_000; // Past EVM_LOG_BLOCK_RANGE, so the scan window doesn't reach genesis
+const network = { id: ChainId.ETHEREUM, name: 'Test', rpcEndpoints: ['http://rpc.test'], explorerUrl: 'https://explorer.test' };
+
+const toHex = (n: number) => `0x${n.toString(16)}`;
+const topic = (address: string) => `0x${'0'.repeat(24)}${address.slice(2)}`;
+
+// Newest first: the wallet pays OTHER 1 ETH in each, 12s per block. 0x00 is a few block windows back.
+const TXS = [...['0x03', '0x02', '0x01'].map((hash, i) => ({ hash, block: HEAD - 10 - i })), { hash: '0x00', block: 100 }];
+
+// Answers the JSON-RPC methods the adapter uses from TXS
+const answer = ({ method, params }: { method: string; params: any[] }): unknown => {
+  const tx = TXS.find(t => t.hash === params[0]);
+  switch (method) {
+    case 'eth_blockNumber': return toHex(HEAD);
+    case 'eth_getLogs': return [];
+    case 'trace_filter': return TXS
+      .filter(t => t.block >= parseInt(params[0].fromBlock, 16) && t.block <= parseInt(params[0].toBlock, 16))
+      .map(t => ({ transactionHash: t.hash, blockNumber: t.block }));
+    case 'eth_getTransactionByHash':
+      return tx && { hash: tx.hash, from: WALLET, to: OTHER, value: toHex(1e18), input: '0x', blockNumber: toHex(tx.block) };
+    case 'eth_getTransactionReceipt': return tx && { logs: [] };
+    case 'eth_getBlockByNumber': return { number: params[0], timestamp: toHex(parseInt(params[0], 16) * 12), transactions: [] };
+    default: return null;
+  }
+};
+
+// A JSON-RPC endpoint answering each call, batched or not, with `respond`
+const rpcServer = (respond: (call: any) => unknown) => async (_url: string, init: { body: string }) => {
+  const body = JSON.parse(init.body);
+  const reply = (call: any) => ({ jsonrpc: '2.0', id: call.id, result: respond(call) });
+  return new Response(JSON.stringify(Array.isArray(body) ? body.map(reply) : reply(body)));
+};
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout'] });
+  vi.stubGlobal('fetch', rpcServer(answer));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+// The adapter sleeps between batches; run those timers out
+const fetchHistory = async (options: Parameters<typeof fetchEvmTransactionHistory>[2]) => {
+  const pending = fetchEvmTransactionHistory(network, WALLET, options);
+  await vi.runAllTimersAsync();
+  return pending;
+};
+
+describe('fetchEvmTransactionHistory', () => {
+  it('pages from a cursor', async () => {
+    const newer = await fetchHistory({ limit: 10, untilSignature: '0x02' });
+    expect(newer.transactions.map(tx => tx.signature)).toEqual(['0x03']);
+    expect(newer.coverage.complete).toBe(true);
+
+    const older = await fetchHistory({ limit: 10, beforeSignature: '0x02' });
+    expect(older.transactions.map(tx => tx.signature)).toEqual(['0x01', '0x00']);
+    expect(older.coverage.complete).toBe(true);
+  });
+
+  it('returns nothing older than a cursor the node doesn\'t know', async () => {
+    const history = await fetchHistory({ limit: 10, beforeSignature: '0xold' });
+    expect(history.transactions).toEqual([]);
+    expect(history.coverage.complete).toBe(false);
+  });
+
+  it('marks txs newer than a cursor the node doesn\'t know incomplete', async () => {
+    const history = await fetchHistory({ limit: 10, untilSignature: '0xold' });
+    expect(history.transactions.map(tx => tx.signature)).toEqual(['0x03', '0x02', '0x01', '0x00']);
+    expect(history.coverage.complete).toBe(false);
+  });
+
+  it('pages the block window back to genesis', async () => {
+    const history = await fetchHistory({ limit: 10 });
+    expect(history.transactions.map(tx => tx.signature)).toEqual(['0x03', '0x02', '0x01', '0x00']);
+    expect(history.coverage.complete).toBe(true);
+  });
+
+  it('stops paging at the start of the time range', async () => {
+    const history = await fetchHistory({ limit: 10, fromTime: (HEAD - 12) * 12 });
+    expect(history.transactions.map(tx => tx.signature)).toEqual(['0x03', '0x02', '0x01']);
+    expect(history.coverage.complete).toBe(true);
+  });
+
+  it('fills the limit with txs inside the time range', async () => {
+    // The newest tx is after toTime; the limit goes to the next one instead
+    const history = await fetchHistory({ limit: 1, toTime: (HEAD - 11) * 12 });
+    expect(history.transactions.map(tx => tx.signature)).toEqual(['0x02']);
+  });
+
+  it('rejects as soon as its signal aborts a request in flight', async () => {
+    // An RPC that never answers; only the abort settles the request
+    vi.stubGlobal('fetch', (_url: string, init: RequestInit) =>
+      new Promise((_, reject) => init.signal?.addEventListener('abort', () => reject(init.signal!.reason))));
+    const controller = new AbortController();
+    const pending = fetchEvmTransactionHistory(network, WALLET, { limit: 10 }, controller.signal);
+    controller.abort();
+    await expect(pending).rejects.toThrow();
+  });
+
+  it('reports the txs of a failed batch as missing', async () => {
+    const server = rpcServer(answer);
+    vi.stubGlobal('fetch', async (url: string, init: { body: string }) =>
+      init.body.includes('eth_getTransactionReceipt') ? new Response('unavailable', { status: 503 }) : server(url, init));
+
+    const history = await fetchHistory({ limit: 10 });
+    expect(history.coverage.missing).toBe(4);
+    expect(history.coverage.complete).toBe(false);
+  });
+
+  it('keeps the txs and asks again when a decimals lookup fails', async () => {
+    // 0x03 also moves 2.5 tokens of a 6-decimals token; the first decimals() batch fails in transit
+    const TOKEN = `0x${'d'.repeat(40)}`;
+    const log = { address: TOKEN, topics: [ERC20_TRANSFER_TOPIC, topic(WALLET), topic(OTHER)], data: toHex(2_500_000), transactionHash: '0x03', blockNumber: toHex(HEAD - 10) };
+    const server = rpcServer(call =>
+      call.method === 'eth_call' ? toHex(6)
+      : call.method === 'eth_getTransactionReceipt' && call.params[0] === '0x03' ? { logs: [log] }
+      : answer(call));
+    let lookups = 0;
+    vi.stubGlobal('fetch', async (url: string, init: { body: string }) =>
+      init.body.includes('eth_call') && lookups++ === 0 ? new Response('unavailable', { status: 503 }) : server(url, init));
+    const tokenTransfers = (history: Awaited<ReturnType<typeof fetchHistory>>) =>
+      history.transactions.flatMap(tx => tx.transfers || []).filter(t => t.mint === TOKEN);
+
+    const first = await fetchHistory({ limit: 10 });
+    expect(first.transactions.map(tx => tx.signature)).toEqual(['0x03', '0x02', '0x01', '0x00']);
+    expect(tokenTransfers(first)).toEqual([]);
+
+    const second = await fetchHistory({ limit: 10 });
+    expect(tokenTransfers(second)).toEqual([expect.objectContaining({ amount: 2.5 })]);
+  });
+});
+
+describe('parseEvmTransaction', () => {
+  const TOKEN = `0x${'c'.repeat(40)}`;
+  // WALLET sends 2.5 tokens of a 6-decimals token (2_500_000 base units) to OTHER
+  const tx = { hash: '0x04', from: WALLET, to: TOKEN, value: '0x0', input: '0xa9059cbb', blockNumber: toHex(HEAD) };
+  const receipt = {
+    logs: [{ address: TOKEN, topics: [ERC20_TRANSFER_TOPIC, topic(WALLET), topic(OTHER)], data: toHex(2_500_000), transactionHash: '0x04', blockNumber: toHex(HEAD) }]
+  };
+
+  it('records ERC-20 amounts in whole tokens', () => {
+    const parsed = parseEvmTransaction(tx, receipt, 1000, ChainId.ETHEREUM, WALLET, new Map([[TOKEN, 6]]));
+    expect(parsed.transfers).toEqual([expect.objectContaining({ from: WALLET, to: OTHER, mint: TOKEN, amount: 2.5 })]);
+  });
+
+  it('leaves out ERC-20 transfers of tokens without decimals', () => {
+    const parsed = parseEvmTransaction(tx, receipt, 1000, ChainId.ETHEREUM, WALLET);
+    expect(parsed.transfers).toEqual([]);
+    expect(parsed.recipients).toContain(OTHER); // Still a counterparty
+  });
+});
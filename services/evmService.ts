@@ -0,0 +1,449 @@
+import { ERC20_DECIMALS_SELECTOR, ERC20_TRANSFER_TOPIC, EVM_LOG_BLOCK_RANGE, EVM_MAX_BLOCK_WINDOWS, EVM_FALLBACK_BLOCK_SCAN, NATIVE_MINT } from '../constants';
+import { AssetTouch, ChainAdapter, ChainId, HistoryOptions, ParsedTxInfo, TransactionHistory, TransferRecord, TxBehavior } from '../types';
+import { DEFAULT_HISTORY_OPTIONS, buildCoverage, effectiveLimit, isWithinRange, toTransfer } from './historyService';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+interface RpcCall {
+  method: string;
+  params: unknown[];
+}
+
+interface RpcResponse<T> {
+  result?: T | null;
+  error?: { code: number; message: string };
+}
+
+interface EvmLog {
+  address: string;
+  topics: string[];
+  data?: string;
+  transactionHash: string;
+  blockNumber: string;
+}
+
+interface EvmTransaction {
+  hash: string;
+  from: string;
+  to: string | null;
+  value: string;
+  input: string;
+  blockNumber: string;
+  gas?: string;
+  type?: string; // 0x0 legacy, 0x1 access list, 0x2 EIP-1559
+  maxPriorityFeePerGas?: string;
+  accessList?: unknown[];
+}
+
+interface EvmReceipt {
+  status?: string;
+  gasUsed?: string;
+  effectiveGasPrice?: string;
+  contractAddress?: string | null;
+  logs: EvmLog[];
+}
+
+interface EvmBlock {
+  number: string;
+  timestamp: string;
+  transactions: (EvmTransaction | string)[];
+}
+
+interface EvmTrace {
+  transactionHash: string | null;
+  blockNumber: number;
+}
+
+export interface EvmNetwork {
+  id: ChainId;
+  name: string;
+  rpcEndpoints: string[];
+  explorerUrl: string; // e.g. https://etherscan.io
+}
+
+export const validateEvmAddress = (address: string): boolean => /^0x[0-9a-fA-F]{40}$/.test(address.trim());
+
+// EVM addresses are case-insensitive (checksum casing is optional), so compare in lowercase
+export const normalizeEvmAddress = (address: string): string => address.trim().toLowerCase();
+
+const toHex = (n: number) => `0x${n.toString(16)}`;
+const fromHex = (hex: string | null | undefined) => (hex ? parseInt(hex, 16) : 0);
+const addressToTopic = (address: string) => `0x${'0'.repeat(24)}${address.slice(2)}`;
+const topicToAddress = (topic: string) => `0x${topic.slice(-40)}`.toLowerCase();
+const weiToEth = (wei: bigint) => Number(wei) / 1e18;
+
+// ERC-20 Transfer logs; ERC-721 ones carry the tokenId as a third indexed topic
+// Newest first, like getSignaturesForAddress. Hashes order the txs of one block, so a cursor splits it the same way every time.
+const newestFirst = ([hashA, blockA]: [string, number], [hashB, blockB]: [string, number]) =>
+  blockB - blockA || (hashA < hashB ? 1 : hashA > hashB ? -1 : 0);
+
+const isErc20Log = (log: EvmLog) => log.topics[0] === ERC20_TRANSFER_TOPIC && log.topics.length === 3;
+
+// `${chain}:${token}` -> decimals(), or null for contracts without one. Kept for the session.
+const tokenDecimals = new Map<string, number | null>();
+
+// Sends a JSON-RPC batch and returns each call's response, or undefined where the node left one out
+const rpcBatchResponses = async <T>(endpoint: string, calls: RpcCall[], signal?: AbortSignal): Promise<(RpcResponse<T> | undefined)[]> => {
+  if (calls.length === 0) return [];
+
+  const body = calls.map((c, id) => ({ jsonrpc: '2.0', id, method: c.method, params: c.params }));
+  const res = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!res.ok) throw new Error(`HTTP ${res.status} from ${endpoint}`);
+
+  const json = await res.json();
+  const responses: any[] = Array.isArray(json) ? json : [json];
+  const byId: (RpcResponse<T> | undefined)[] = new Array(calls.length).fill(undefined);
+  responses.forEach(r => {
+    if (typeof r?.id === 'number' && r.id < calls.length) byId[r.id] = r;
+  });
+  return byId;
+};
+
+// Sends a JSON-RPC batch. Individual failures come back as null so callers can degrade gracefully.
+const rpcBatch = async <T>(endpoint: string, calls: RpcCall[], signal?: AbortSignal): Promise<(T | null)[]> =>
+  (await rpcBatchResponses<T>(endpoint, calls, signal)).map((r, id) => {
+    if (r?.error) console.warn(`RPC ${calls[id].method} failed on ${endpoint}:`, r.error.message);
+    return r?.error ? null : r?.result ?? null;
+  });
+
+const rpcCall = async <T>(endpoint: string, method: string, params: unknown[], signal?: AbortSignal): Promise<T> => {
+  const res = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+    signal,
+  });
+  if (!res.ok) throw new Error(`HTTP ${res.status} from ${endpoint}`);
+
+  const json = await res.json();
+  if (json.error) throw new Error(`${method}: ${json.error.message} (code ${json.error.code})`);
+  return json.result as T;
+};
+
+// Same fallback strategy as the Solana service: walk the endpoint list until one answers. An aborted
+// `signal` is not retried elsewhere.
+const executeWithFallback = async <T>(
+  endpoints: string[],
+  operation: (endpoint: string) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  let lastError: any;
+
+  for (const endpoint of endpoints) {
+    try {
+      return await operation(endpoint);
+    } catch (error: any) {
+      if (signal?.aborted) throw error;
+      console.warn(`RPC Error on ${endpoint}:`, error?.message || error);
+      lastError = error;
+      await sleep(300);
+    }
+  }
+
+  throw lastError || new Error("All RPC endpoints failed");
+};
+
+// Collects candidate tx hashes (with block numbers) touching the address in blocks `first` to `last`
+const collectTxHashes = async (
+  endpoint: string,
+  address: string,
+  first: number,
+  last: number,
+  head: number,
+  signal?: AbortSignal
+): Promise<Map<string, number>> => {
+  const hashes = new Map<string, number>();
+  const fromBlock = toHex(first);
+  const toBlock = toHex(last);
+  const topic = addressToTopic(address);
+
+  // 1. ERC-20 / ERC-721 Transfer logs, outgoing and incoming
+  const [sent, received] = await rpcBatch<EvmLog[]>(endpoint, [
+    { method: 'eth_getLogs', params: [{ fromBlock, toBlock, topics: [ERC20_TRANSFER_TOPIC, topic] }] },
+    { method: 'eth_getLogs', params: [{ fromBlock, toBlock, topics: [ERC20_TRANSFER_TOPIC, null, topic] }] },
+  ], signal);
+  [...(sent || []), ...(received || [])].forEach(log => {
+    hashes.set(log.transactionHash, fromHex(log.blockNumber));
+  });
+
+  // 2. Native transfers & contract calls. trace_filter covers internal calls too, but is only on archive/trace nodes.
+  const [tracesFrom, tracesTo] = await rpcBatch<EvmTrace[]>(endpoint, [
+    { method: 'trace_filter', params: [{ fromBlock, toBlock, fromAddress: [address] }] },
+    { method: 'trace_filter', params: [{ fromBlock, toBlock, toAddress: [address] }] },
+  ], signal);
+
+  if (tracesFrom || tracesTo) {
+    [...(tracesFrom || []), ...(tracesTo || [])].forEach(trace => {
+      if (trace.transactionHash) hashes.set(trace.transactionHash, trace.blockNumber);
+    });
+    return hashes;
+  }
+
+  // 3. Fallback: scan the chain's most recent blocks (those in this window) for top-level transactions from/to the address
+  const scanFrom = Math.max(first, head - EVM_FALLBACK_BLOCK_SCAN + 1);
+  const batchSize = 20;
+  for (let start = last; start >= scanFrom; start -= batchSize) {
+    const calls: RpcCall[] = [];
+    for (let n = start; n > start - batchSize && n >= scanFrom; n--) {
+      calls.push({ method: 'eth_getBlockByNumber', params: [toHex(n), true] });
+    }
+    const blocks = await rpcBatch<EvmBlock>(endpoint, calls, signal);
+    blocks.forEach(block => {
+      block?.transactions.forEach(tx => {
+        if (typeof tx === 'string') return;
+        if (tx.from?.toLowerCase() === address || tx.to?.toLowerCase() === address) {
+          hashes.set(tx.hash, fromHex(tx.blockNumber));
+        }
+      });
+    });
+  }
+
+  return hashes;
+};
+
+// Looks up decimals() of the tokens not seen before, one batch for all of them. Only an answer is
+// cached: an empty result or a revert means the token has none, a failed call is asked again next time.
+const loadTokenDecimals = async (endpoint: string, chain: ChainId, tokens: string[], signal?: AbortSignal): Promise<Map<string, number>> => {
+  const unknown = [...new Set(tokens)].filter(token => !tokenDecimals.has(`${chain}:${token}`));
+  try {
+    const responses = await rpcBatchResponses<string>(endpoint, unknown.map(token => ({
+      method: 'eth_call', params: [{ to: token, data: ERC20_DECIMALS_SELECTOR }, 'latest']
+    })), signal);
+    unknown.forEach((token, idx) => {
+      const { result, error } = responses[idx] ?? {};
+      if (error ? !/revert/i.test(error.message) : !result) return;
+      const decimals = result && result !== '0x' ? fromHex(result) : NaN;
+      tokenDecimals.set(`${chain}:${token}`, Number.isInteger(decimals) && decimals <= 36 ? decimals : null);
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn(`Failed to look up token decimals on ${endpoint}:`, error);
+  }
+
+  const known = new Map<string, number>();
+  tokens.forEach(token => {
+    const decimals = tokenDecimals.get(`${chain}:${token}`);
+    if (decimals !== null && decimals !== undefined) known.set(token, decimals);
+  });
+  return known;
+};
+
+// Build details: the call made, gas limit, priority fee and tx type, which wallets and bots tend to keep constant
+const extractEvmBehavior = (tx: EvmTransaction, to: string | null): TxBehavior => ({
+  instructions: [!to ? 'create' : tx.input && tx.input !== '0x' ? `${to}:${tx.input.slice(0, 10)}` : 'transfer'],
+  computeUnitLimit: tx.gas ? fromHex(tx.gas) : undefined,
+  priorityFee: tx.maxPriorityFeePerGas ? fromHex(tx.maxPriorityFeePerGas) / 1e9 : undefined,
+  format: [`type ${fromHex(tx.type)}`, tx.accessList?.length ? 'access list' : null].filter(Boolean).join(' · '),
+});
+
+export const parseEvmTransaction = (
+  tx: EvmTransaction,
+  receipt: EvmReceipt | null,
+  blockTime: number,
+  chain: ChainId,
+  monitoredAddress: string,
+  decimals: Map<string, number> = new Map() // ERC-20 token -> decimals()
+): ParsedTxInfo => {
+  const sender = tx.from.toLowerCase();
+  const to = tx.to?.toLowerCase() || null;
+  const value = BigInt(tx.value || '0x0');
+
+  const recipients: string[] = [];
+  const programIds: string[] = [];
+  const transfers: TransferRecord[] = [];
+  const assets = new Map<string, AssetTouch>();
+
+  // 1. Native value transfer vs. contract call
+  if (to) {
+    if (value > 0n) {
+      recipients.push(to);
+      transfers.push(toTransfer(sender, to, NATIVE_MINT, weiToEth(value), monitoredAddress));
+    }
+    if (tx.input && tx.input !== '0x') programIds.push(to);
+  } else if (receipt?.contractAddress) {
+    // Contract creation - treat the new contract like Solana's newAccount
+    recipients.push(receipt.contractAddress.toLowerCase());
+  }
+
+  // 2. Token Transfer logs (both sides are counterparties of the monitored wallet)
+  receipt?.logs.forEach(log => {
+    if (log.topics[0] !== ERC20_TRANSFER_TOPIC || log.topics.length < 3) return;
+    const token = log.address.toLowerCase();
+    const from = topicToAddress(log.topics[1]);
+    const logTo = topicToAddress(log.topics[2]);
+    programIds.push(token);
+    recipients.push(from);
+    recipients.push(logTo);
+    // ERC-20 carries the base-unit amount in data; ERC-721 (tokenId in topics[3]) moves a single item.
+    // Without decimals() the amount can't be compared with anything, so no transfer is recorded.
+    if (!isErc20Log(log)) {
+      transfers.push(toTransfer(from, logTo, token, 1, monitoredAddress));
+    } else if (decimals.has(token)) {
+      const raw = Number(BigInt(log.data && log.data !== '0x' ? log.data : '0x0'));
+      transfers.push(toTransfer(from, logTo, token, raw / 10 ** decimals.get(token)!, monitoredAddress));
+    }
+    if (from === monitoredAddress || logTo === monitoredAddress) {
+      // An ERC-721 contract is itself the collection
+      const isNft = log.topics.length === 4;
+      assets.set(token, { mint: token, isNft, collection: isNft ? token : undefined });
+    }
+  });
+
+  const fee = receipt?.gasUsed && receipt.effectiveGasPrice
+    ? weiToEth(BigInt(receipt.gasUsed) * BigInt(receipt.effectiveGasPrice))
+    : undefined;
+
+  const zeroAddress = `0x${'0'.repeat(40)}`;
+  const uniqueRecipients = [...new Set(recipients)].filter(r => r !== sender && r !== zeroAddress);
+
+  return {
+    chain,
+    signature: tx.hash,
+    blockTime,
+    sender,
+    recipients: uniqueRecipients,
+    programIds: [...new Set(programIds)],
+    transfers: transfers.filter(t => t.amount > 0 && t.from !== t.to),
+    fee,
+    assets: Array.from(assets.values()),
+    behavior: extractEvmBehavior(tx, to),
+    // Externally owned accounts sign and pay for their own txs
+    signers: [sender],
+    feePayer: sender
+  };
+};
+
+export const fetchEvmTransactionHistory = async (
+  network: EvmNetwork,
+  address: string,
+  options: HistoryOptions = DEFAULT_HISTORY_OPTIONS,
+  signal?: AbortSignal
+): Promise<TransactionHistory> => {
+  const normalized = normalizeEvmAddress(address);
+  const target = effectiveLimit(options);
+
+  try {
+    return await executeWithFallback(network.rpcEndpoints, async (endpoint) => {
+      const head = fromHex(await rpcCall<string>(endpoint, 'eth_blockNumber', [], signal));
+
+      // Cursors are placed by their block. One the node doesn't know (e.g. reorged out) can't be placed, and
+      // paging from the newest tx instead would hand the cache txs it already holds.
+      const cursorAt = async (hash?: string): Promise<[string, number] | undefined> => {
+        if (!hash) return undefined;
+        const tx = await rpcCall<EvmTransaction | null>(endpoint, 'eth_getTransactionByHash', [hash], signal);
+        return tx?.blockNumber ? [hash, fromHex(tx.blockNumber)] : undefined;
+      };
+      const before = await cursorAt(options.beforeSignature);
+      if (options.beforeSignature && !before) {
+        return { transactions: [], coverage: buildCoverage([], 0, false) };
+      }
+      const until = await cursorAt(options.untilSignature);
+      const lowestBlock = until ? until[1] : 0;
+
+      const parsedTxs: ParsedTxInfo[] = [];
+      const blockTimes = new Map<string, number>();
+      const batchSize = 10;
+      let listed = 0;
+      let missing = 0; // Txs of failed batches; they leave gaps, so the page isn't complete
+      let passedFromTime = false; // Candidates are newest first, so everything after this is older too
+      let reachedEnd = false; // Every block down to the until cursor (or genesis) was scanned
+      let windowEnd = before ? before[1] : head;
+
+      // Logs and traces are searched EVM_LOG_BLOCK_RANGE blocks at a time, paging back from the head or cursor
+      for (let w = 0; w < EVM_MAX_BLOCK_WINDOWS && parsedTxs.length < target && !passedFromTime; w++) {
+        const windowStart = Math.max(lowestBlock, windowEnd - EVM_LOG_BLOCK_RANGE + 1);
+        const hashes = await collectTxHashes(endpoint, normalized, windowStart, windowEnd, head, signal);
+        const candidates = Array.from(hashes.entries())
+          .filter(entry => (!before || newestFirst(before, entry) < 0) && (!until || newestFirst(entry, until) < 0))
+          .sort(newestFirst);
+        listed += candidates.length;
+        let scanned = 0;
+
+        // Block times are only known once fetched, so keep going until `target` txs fall inside the range
+        while (scanned < candidates.length && parsedTxs.length < target && !passedFromTime) {
+          const batch = candidates.slice(scanned, scanned + batchSize).map(([hash]) => hash);
+          scanned += batch.length;
+
+          try {
+            const results = await rpcBatch<any>(endpoint, batch.flatMap(hash => [
+              { method: 'eth_getTransactionByHash', params: [hash] },
+              { method: 'eth_getTransactionReceipt', params: [hash] },
+            ]), signal);
+
+            const missingBlocks = [...new Set(
+              batch
+                .map((_, idx) => (results[idx * 2] as EvmTransaction | null)?.blockNumber)
+                .filter((b): b is string => !!b && !blockTimes.has(b))
+            )];
+            const blocks = await rpcBatch<EvmBlock>(endpoint, missingBlocks.map(b => ({
+              method: 'eth_getBlockByNumber', params: [b, false]
+            })), signal);
+            blocks.forEach((block, idx) => {
+              if (block) blockTimes.set(missingBlocks[idx], fromHex(block.timestamp));
+            });
+            const decimals = await loadTokenDecimals(endpoint, network.id, batch.flatMap((_, idx) =>
+              ((results[idx * 2 + 1] as EvmReceipt | null)?.logs || []).filter(isErc20Log).map(log => log.address.toLowerCase())
+            ), signal);
+
+            batch.forEach((_, idx) => {
+              const tx = results[idx * 2] as EvmTransaction | null;
+              const receipt = results[idx * 2 + 1] as EvmReceipt | null;
+              if (!tx) return;
+              const blockTime = blockTimes.get(tx.blockNumber) || 0;
+              if (options.fromTime !== undefined && blockTime && blockTime < options.fromTime) passedFromTime = true;
+              if (!isWithinRange(blockTime, options)) return;
+              parsedTxs.push(parseEvmTransaction(tx, receipt, blockTime, network.id, normalized, decimals));
+            });
+          } catch (batchErr) {
+            if (signal?.aborted) throw batchErr;
+            console.warn(`Failed to parse batch for ${address}`, batchErr);
+            missing += batch.length;
+          }
+
+          await sleep(200);
+        }
+
+        if (scanned < candidates.length) break; // Cut off by the limit or the start of the range
+        if (windowStart === lowestBlock) {
+          reachedEnd = true;
+          break;
+        }
+        windowEnd = windowStart - 1;
+
+        // An empty window says nothing about time, so check whether the next one already starts before the range
+        if (options.fromTime !== undefined) {
+          const block = await rpcCall<EvmBlock | null>(endpoint, 'eth_getBlockByNumber', [toHex(windowEnd), false], signal);
+          if (block && fromHex(block.timestamp) < options.fromTime) passedFromTime = true;
+        }
+        await sleep(200);
+      }
+
+      // Only complete if nothing was cut off and the scan reached the start of the range, the cursor or
+      // (without either) genesis within EVM_MAX_BLOCK_WINDOWS. An untilSignature the node doesn't know leaves
+      // it incomplete, so the cache starts a new run rather than stacking duplicates.
+      const transactions = parsedTxs.slice(0, target);
+      const cursorLost = !!options.untilSignature && !until;
+      const complete = parsedTxs.length <= target && !cursorLost && (passedFromTime || reachedEnd);
+      return { transactions, coverage: buildCoverage(transactions, listed, complete, missing) };
+    }, signal);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error(`Final error fetching for ${address}:`, error);
+    return { transactions: [], coverage: buildCoverage([], 0, false) };
+  }
+};
+
+export const createEvmAdapter = (network: EvmNetwork, signal?: AbortSignal): ChainAdapter => ({
+  id: network.id,
+  name: network.name,
+  addressLabel: 'EVM',
+  validateAddress: validateEvmAddress,
+  normalizeAddress: normalizeEvmAddress,
+  explorerTxUrl: (hash) => `${network.explorerUrl}/tx/${hash}`,
+  fetchTransactionHistory: (address, options) => fetchEvmTransactionHistory(network, address, options, signal),
+});
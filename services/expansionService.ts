@@ -0,0 +1,87 @@
+import { EXPANSION_MAX_NEIGHBORS, IGNORED_PROGRAMS, NATIVE_MINT } from '../constants';
+import { ConnectionType, GraphData, LabelRegistry, Link, Node, ParsedTxInfo } from '../types';
+import { getLabel, getPolicy } from './labelService';
+
+type Histories = { [address: string]: ParsedTxInfo[] };
+
+// How an address takes part in a transaction, strongest role first; null when it doesn't
+export const txRole = (tx: ParsedTxInfo, address: string): 'sender' | 'recipient' | 'signer' | 'program' | 'asset' | null => {
+  if (tx.sender === address || tx.inputAddresses?.includes(address)) return 'sender';
+  if (tx.recipients.includes(address) || tx.transfers?.some(t => t.to === address)) return 'recipient';
+  if (tx.signers?.includes(address) || tx.feePayer === address) return 'signer';
+  if (tx.programIds.includes(address)) return 'program';
+  if (tx.assets?.some(a => a.mint === address || a.collection === address)) return 'asset';
+  return null;
+};
+
+// Every known transaction touching `address`, once each, newest first
+export const transactionsTouching = (address: string, histories: Histories[]): ParsedTxInfo[] => {
+  const found = new Map<string, ParsedTxInfo>();
+  histories.forEach(group => Object.values(group).forEach(txs => txs.forEach(tx => {
+    if (!found.has(tx.signature) && txRole(tx, address)) found.set(tx.signature, tx);
+  })));
+  return Array.from(found.values()).sort((a, b) => b.blockTime - a.blockTime);
+};
+
+// Native coin `address` received minus what it sent in one transaction
+export const netNativeAmount = (tx: ParsedTxInfo, address: string) =>
+  (tx.transfers || []).reduce((sum, t) => {
+    if (t.mint !== NATIVE_MINT || t.from === t.to) return sum;
+    return sum + (t.to === address ? t.amount : 0) - (t.from === address ? t.amount : 0);
+  }, 0);
+
+/**
+ * Adds each expanded node's busiest counterparties to the graph, linked to it. Nodes and links
+ * already in the graph are kept as they are; expansions of nodes no longer shown are skipped.
+ */
+export const mergeExpansions = (graph: GraphData, expansions: Histories, labels?: LabelRegistry): GraphData => {
+  const nodes = new Map<string, Node>(graph.nodes.map(n => [n.id, n]));
+  const links = new Map<string, Link>(graph.links.map(l => [[l.source, l.target].sort().join('-'), l]));
+
+  Object.entries(expansions).forEach(([address, txs]) => {
+    if (!nodes.has(address)) return;
+    const neighbors = new Map<string, { txs: Set<string>; volume: number }>();
+
+    txs.forEach(tx => {
+      [tx.sender, ...tx.recipients].forEach(other => {
+        if (other === address || !other || IGNORED_PROGRAMS.includes(other) || tx.programIds.includes(other)) return;
+        if (getPolicy(labels, other) === 'ignore') return;
+        if (!neighbors.has(other)) neighbors.set(other, { txs: new Set(), volume: 0 });
+        neighbors.get(other)!.txs.add(tx.signature);
+      });
+      tx.transfers?.forEach(t => {
+        if (t.mint !== NATIVE_MINT) return;
+        const other = t.from === address ? t.to : t.to === address ? t.from : null;
+        if (other && neighbors.has(other)) neighbors.get(other)!.volume += t.amount;
+      });
+    });
+
+    Array.from(neighbors.entries())
+      .sort((a, b) => b[1].txs.size - a[1].txs.size)
+      .slice(0, EXPANSION_MAX_NEIGHBORS)
+      .forEach(([other, { txs: shared, volume }]) => {
+        if (!nodes.has(other)) {
+          const entity = getLabel(labels, other);
+          nodes.set(other, {
+            id: other,
+            group: 'counterparty',
+            label: entity ? entity.name : `${other.slice(0, 4)}...${other.slice(-4)}`,
+            val: 5,
+            ...(entity && { entity, highlighted: getPolicy(labels, other) === 'highlight' })
+          });
+        }
+        const linkId = [address, other].sort().join('-');
+        if (links.has(linkId)) return;
+        links.set(linkId, {
+          source: address,
+          target: other,
+          type: ConnectionType.SHARED_COUNTERPARTY,
+          details: `${shared.size} tx${shared.size === 1 ? '' : 's'} (expanded)`,
+          value: 0.5 * shared.size,
+          ...(volume > 0 && { volume })
+        });
+      });
+  });
+
+  return { nodes: Array.from(nodes.values()), links: Array.from(links.values()) };
+};
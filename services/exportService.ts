@@ -0,0 +1,45 @@
+import { AnalysisSummary } from '../types';
+
+export const csvCell = (value: string | number | boolean | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const isoTime = (blockTime: number) => blockTime ? new Date(blockTime * 1000).toISOString() : '';
+
+// The full evidence ledger: one row per piece of evidence, pair columns repeated on each row
+export const buildLedgerCsv = (summary: AnalysisSummary) => {
+  const headers = [
+    "Address A", "Address B", "Pair Score", "Type", "Reason", "Strength", "Weight", "Contribution",
+    "Counterparty", "Signatures", "Timestamps", "Time Delta (s)", "Entity"
+  ];
+  // Entity cluster id, when both wallets of a pair ended up in the same one
+  const clusterOf = new Map(summary.entityClusters.flatMap(c => c.members.map(m => [m, c.id] as [string, number])));
+  const rows = summary.connectedPairs.flatMap(pair => pair.breakdown.items.map(item => [
+    pair.addressA,
+    pair.addressB,
+    pair.score,
+    item.type,
+    item.reason,
+    item.strength.toFixed(3),
+    item.weight.toFixed(3),
+    item.probability.toFixed(4),
+    item.counterparty,
+    item.signatures.join(' '),
+    item.timestamps.map(isoTime).join(' '),
+    item.timeDelta,
+    clusterOf.get(pair.addressA) === clusterOf.get(pair.addressB) ? clusterOf.get(pair.addressA) : undefined,
+  ].map(csvCell).join(',')));
+  return [headers.join(','), ...rows].join('\n');
+};
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const anchor = document.createElement('a');
+  anchor.setAttribute("href", url);
+  anchor.setAttribute("download", fileName);
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { findFirstDeposit } from './fundingService';
+import { parseEsploraTransaction } from './bitcoinService';
+
+const A = 'bc1qaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+const F = 'bc1qffffffffffffffffffffffffffffffffffffff';
+const X = 'bc1qxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx';
+
+// `from` pays `to` 0.1 BTC, parsed as it appears in `monitored`'s history
+const payment = (txid: string, blockTime: number, from: string, to: string, monitored: string) =>
+  parseEsploraTransaction({
+    txid,
+    vin: [{ is_coinbase: false, prevout: { scriptpubkey_address: from, scriptpubkey_type: 'v0_p2wpkh', value: 50_000_000 } }],
+    vout: [{ scriptpubkey_address: to, scriptpubkey_type: 'v0_p2wpkh', value: 10_000_000 }],
+    status: { confirmed: true, block_time: blockTime },
+  }, monitored)!;
+
+describe('findFirstDeposit', () => {
+  it('finds a bitcoin deposit the wallet only received', () => {
+    const deposit = payment('t1', 1000, F, A, A);
+    expect(findFirstDeposit(A, [deposit])).toBe(deposit);
+  });
+
+  it('skips the wallet\'s own payments', () => {
+    const deposit = payment('t2', 2000, F, A, A);
+    expect(findFirstDeposit(A, [payment('t1', 1000, A, X, A), deposit])).toBe(deposit);
+  });
+});
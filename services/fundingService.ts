@@ -0,0 +1,53 @@
+import { FUNDING_TX_COUNT } from '../constants';
+import { AnalysisConfig, ChainAdapter, FundingSource, ParsedTxInfo, WalletCoverage } from '../types';
+
+// The first transaction (oldest first) where someone else moved funds into the wallet. Bitcoin lists
+// payees only for the wallet that paid them, so a received output shows up in `transfers` alone.
+export const findFirstDeposit = (address: string, earliest: ParsedTxInfo[]): ParsedTxInfo | undefined =>
+  [...earliest]
+    .sort((a, b) => a.blockTime - b.blockTime)
+    .find(tx => tx.sender !== address && (tx.recipients.includes(address) || !!tx.transfers?.some(t => t.to === address)));
+
+/**
+ * Locates the funding wallet of each input.
+ * If the fetched history already reaches the first transaction it is reused, otherwise
+ * the adapter walks back to the oldest signatures. Chains without that capability fall
+ * back to the oldest fetched transactions, flagged as not being the first deposit.
+ */
+export const findFundingSources = async (
+  adapter: ChainAdapter,
+  inputs: { [address: string]: ParsedTxInfo[] },
+  coverage: { [address: string]: WalletCoverage },
+  config: AnalysisConfig,
+  onProgress?: (address: string) => void
+): Promise<{ [address: string]: FundingSource }> => {
+  const sources: { [address: string]: FundingSource } = {};
+
+  for (const address of Object.keys(inputs)) {
+    onProgress?.(address);
+
+    let earliest = inputs[address];
+    // A complete fetch only reaches the first tx when no start date cut it short
+    let reachedFirst = !!coverage[address]?.complete && config.fromTime === undefined;
+
+    if (!reachedFirst && adapter.fetchEarliestTransactions) {
+      const history = await adapter.fetchEarliestTransactions(address, FUNDING_TX_COUNT);
+      if (history.transactions.length > 0) {
+        earliest = history.transactions;
+        reachedFirst = history.coverage.complete;
+      }
+    }
+
+    const deposit = findFirstDeposit(address, earliest);
+    if (!deposit) continue;
+
+    sources[address] = {
+      funder: deposit.sender,
+      signature: deposit.signature,
+      blockTime: deposit.blockTime,
+      isFirstDeposit: reachedFirst
+    };
+  }
+
+  return sources;
+};
@@ -1,5 +1,6 @@
 import { GoogleGenAI } from "@google/genai";
 import { AnalysisSummary } from '../types';
+import { AI_PROMPT_MAX_PAIRS } from '../constants';
 
 // NOTE: In a real production app, this call would happen server-side to protect the key.
 // As per instructions, we use process.env.API_KEY.
@@ -8,19 +9,45 @@ const getAiClient = () => {
     return new GoogleGenAI({ apiKey: process.env.API_KEY });
 };
 
-export const generateAiInsight = async (summary: AnalysisSummary, inputs: string[]) => {
+export const generateAiInsight = async (summary: AnalysisSummary, inputs: string[], chainName = 'Solana') => {
   const ai = getAiClient();
   if (!ai) return "API Key missing. Cannot generate AI insights.";
 
   const prompt = `
-    You are a blockchain forensics expert. Analyze the following summary of connections between specific Solana wallet addresses.
+    You are a blockchain forensics expert. Analyze the following summary of connections between specific ${chainName} wallet addresses.
     
     Target Wallets Investigated: ${inputs.join(', ')}
     
     Data Found:
     - Total Transactions Scanned: ${summary.totalTransactionsScanned}
+    - Per-Wallet Coverage: ${JSON.stringify(summary.coverage)}
     - Unique Counterparties: ${summary.uniqueCounterparties}
-    - Key Connections Identified: ${JSON.stringify(summary.connectedPairs)}
+    - Key Connections Identified (score 0-100 with its evidence; strongest ${Math.min(AI_PROMPT_MAX_PAIRS, summary.connectedPairs.length)} of ${summary.connectedPairs.length}): ${JSON.stringify(summary.connectedPairs.slice(0, AI_PROMPT_MAX_PAIRS).map(p => ({
+        addressA: p.addressA,
+        addressB: p.addressB,
+        score: p.score,
+        evidence: p.breakdown.items.map(i => `${i.type}: ${i.reason}`)
+      })))}
+    - Overall Confidence: ${summary.confidenceScore}/100 (scoring profile "${summary.scoringProfile}")
+    - Traced Multi-Hop Flows: ${JSON.stringify(summary.flowPaths)}
+    - Co-Signed / Fee-Sponsored Transactions between inputs (near-certain common control): ${JSON.stringify(summary.coSignedTxs)}
+    - Outside Wallets Paying Fees for Several Inputs: ${JSON.stringify(summary.feeSponsors.map(s => ({ sponsor: s.sponsor, inputs: s.inputs, txCount: s.signatures.length })))}
+    - Funding Sources (first deposits): ${JSON.stringify(summary.fundingSources)}
+    - Shared Tokens / NFT Collections (rarity 0-1): ${JSON.stringify(summary.sharedAssets)}
+    - Similar Activity Patterns (UTC hour / weekday cosine similarity, shared wake-ups from dormancy): ${JSON.stringify(summary.temporalCorrelations.slice(0, AI_PROMPT_MAX_PAIRS).map(c => ({
+        addressA: c.addressA,
+        addressB: c.addressB,
+        hourSimilarity: c.hourSimilarity.toFixed(2),
+        daySimilarity: c.daySimilarity.toFixed(2),
+        sharedActivations: c.sharedActivations.length
+      })))}
+    - Similar Tx-Building Behavior (per-feature cosine similarity, shared value): ${JSON.stringify(summary.behaviorSimilarities.slice(0, AI_PROMPT_MAX_PAIRS).map(s => ({
+        addressA: s.addressA,
+        addressB: s.addressB,
+        matches: s.matches.map(m => `${m.feature} ${m.similarity.toFixed(2)}${m.shared ? ` (${m.shared})` : ''}`)
+      })))}
+    - Probable Entity Clusters (confidence 0-100): ${JSON.stringify(summary.entityClusters)}
+    - Flagged Known Entities (mixers, scams) touched: ${JSON.stringify(summary.flaggedEntities)}
 
     Task:
     1. Assess the likelihood that these wallets belong to the same entity or are coordinating.
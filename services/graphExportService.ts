@@ -0,0 +1,224 @@
+import { AnalysisSummary, GraphData, Link, Node } from '../types';
+import { COLORS, DIRECTED_CONNECTION_TYPES } from '../constants';
+import { csvCell } from './exportService';
+
+type AttributeType = 'string' | 'double' | 'integer' | 'boolean';
+type AttributeValue = string | number | boolean | undefined;
+
+// Attribute schema shared by every format; GEXF and GraphML declare it up front
+const NODE_ATTRIBUTES: { key: string; type: AttributeType }[] = [
+  { key: 'group', type: 'string' },
+  { key: 'size', type: 'double' },
+  { key: 'entityName', type: 'string' },
+  { key: 'entityCategory', type: 'string' },
+  { key: 'highlighted', type: 'boolean' },
+  { key: 'cluster', type: 'integer' },
+];
+
+const LINK_ATTRIBUTES: { key: string; type: AttributeType }[] = [
+  { key: 'type', type: 'string' },
+  { key: 'weight', type: 'double' },
+  { key: 'volume', type: 'double' },
+  { key: 'details', type: 'string' },
+  { key: 'directed', type: 'boolean' },
+  { key: 'pairScore', type: 'integer' },
+  { key: 'evidence', type: 'string' },
+];
+
+const GROUP_COLORS: Record<Node['group'], string> = {
+  input: COLORS.input,
+  counterparty: COLORS.counterparty,
+  program: COLORS.program,
+  middleman: '#f59e0b',
+  change: COLORS.change,
+  funder: COLORS.funder,
+  asset: COLORS.asset,
+};
+
+const nodeAttributes = (node: Node): Record<string, AttributeValue> => ({
+  group: node.group,
+  size: node.val,
+  entityName: node.entity?.name,
+  entityCategory: node.entity?.category,
+  highlighted: !!node.highlighted,
+  cluster: node.cluster,
+});
+
+// Links between two inputs carry that pair's score and evidence ledger ("TYPE: reason | ...")
+const linkAttributes = (link: Link, summary: AnalysisSummary | null): Record<string, AttributeValue> => {
+  const pair = summary?.connectedPairs.find(p =>
+    (p.addressA === link.source && p.addressB === link.target) || (p.addressA === link.target && p.addressB === link.source)
+  );
+  return {
+    type: link.type,
+    weight: link.value,
+    volume: link.volume,
+    details: link.details || undefined,
+    directed: DIRECTED_CONNECTION_TYPES.includes(link.type),
+    pairScore: pair?.score,
+    evidence: pair?.breakdown.items.map(i => `${i.type}: ${i.reason}`).join(' | '),
+  };
+};
+
+const xml = (value: AttributeValue) => String(value ?? '')
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const dot = (value: AttributeValue) => `"${String(value ?? '').replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+const defined = (attrs: Record<string, AttributeValue>) =>
+  Object.entries(attrs).filter((entry): entry is [string, string | number | boolean] => entry[1] !== undefined);
+
+// Gephi. Symmetric links are undirected, value flows directed.
+export const buildGexf = (graph: GraphData, summary: AnalysisSummary | null) => {
+  const declare = (cls: string, attrs: typeof NODE_ATTRIBUTES) => [
+    `    <attributes class="${cls}">`,
+    ...attrs.map(a => `      <attribute id="${a.key}" title="${a.key}" type="${a.type}"/>`),
+    `    </attributes>`,
+  ];
+  const values = (attrs: Record<string, AttributeValue>) => [
+    `        <attvalues>`,
+    ...defined(attrs).map(([key, value]) => `          <attvalue for="${key}" value="${xml(value)}"/>`),
+    `        </attvalues>`,
+  ];
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gexf xmlns="http://gexf.net/1.3" version="1.3">`,
+    `  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}"><creator>NexusTracker</creator></meta>`,
+    `  <graph defaultedgetype="undirected" mode="static">`,
+    ...declare('node', NODE_ATTRIBUTES),
+    ...declare('edge', LINK_ATTRIBUTES),
+    `    <nodes>`,
+    ...graph.nodes.flatMap(node => [
+      `      <node id="${xml(node.id)}" label="${xml(node.label)}">`,
+      ...values(nodeAttributes(node)),
+      `      </node>`,
+    ]),
+    `    </nodes>`,
+    `    <edges>`,
+    ...graph.links.flatMap((link, i) => [
+      `      <edge id="${i}" source="${xml(link.source)}" target="${xml(link.target)}" weight="${link.value}"${DIRECTED_CONNECTION_TYPES.includes(link.type) ? ' type="directed"' : ''}>`,
+      ...values(linkAttributes(link, summary)),
+      `      </edge>`,
+    ]),
+    `    </edges>`,
+    `  </graph>`,
+    `</gexf>`,
+  ].join('\n');
+};
+
+// yEd, Cytoscape desktop, NetworkX
+export const buildGraphMl = (graph: GraphData, summary: AnalysisSummary | null) => {
+  const declare = (domain: string, attrs: typeof NODE_ATTRIBUTES) =>
+    attrs.map(a => `  <key id="${domain}_${a.key}" for="${domain}" attr.name="${a.key}" attr.type="${a.type === 'integer' ? 'int' : a.type}"/>`);
+  const values = (domain: string, attrs: Record<string, AttributeValue>) =>
+    defined(attrs).map(([key, value]) => `      <data key="${domain}_${key}">${xml(value)}</data>`);
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<graphml xmlns="http://graphml.graphdrawing.org/xmlns">`,
+    `  <key id="node_label" for="node" attr.name="label" attr.type="string"/>`,
+    ...declare('node', NODE_ATTRIBUTES),
+    ...declare('edge', LINK_ATTRIBUTES),
+    `  <graph id="nexus" edgedefault="undirected">`,
+    ...graph.nodes.flatMap(node => [
+      `    <node id="${xml(node.id)}">`,
+      `      <data key="node_label">${xml(node.label)}</data>`,
+      ...values('node', nodeAttributes(node)),
+      `    </node>`,
+    ]),
+    ...graph.links.flatMap((link, i) => [
+      `    <edge id="e${i}" source="${xml(link.source)}" target="${xml(link.target)}"${DIRECTED_CONNECTION_TYPES.includes(link.type) ? ' directed="true"' : ''}>`,
+      ...values('edge', linkAttributes(link, summary)),
+      `    </edge>`,
+    ]),
+    `  </graph>`,
+    `</graphml>`,
+  ].join('\n');
+};
+
+// Cytoscape.js `elements` JSON (also opens in Cytoscape desktop)
+export const buildCytoscapeJson = (graph: GraphData, summary: AnalysisSummary | null) =>
+  JSON.stringify({
+    elements: {
+      nodes: graph.nodes.map(node => ({
+        data: { id: node.id, label: node.label, ...Object.fromEntries(defined(nodeAttributes(node))) }
+      })),
+      edges: graph.links.map((link, i) => ({
+        data: { id: `e${i}`, source: link.source, target: link.target, ...Object.fromEntries(defined(linkAttributes(link, summary))) }
+      })),
+    }
+  }, null, 2);
+
+// Graphviz reserves these names (an edge weight must be an integer there), so they're renamed
+const DOT_RENAMES: Record<string, string> = { weight: 'value', size: 'val' };
+const dotAttributes = (attrs: Record<string, AttributeValue>) =>
+  defined(attrs).map(([key, value]) => `${DOT_RENAMES[key] || key}=${dot(value)}`);
+
+// Graphviz. A digraph so value flows keep their arrows; symmetric links are drawn without one.
+export const buildDot = (graph: GraphData, summary: AnalysisSummary | null) => [
+  `digraph nexus {`,
+  `  node [style=filled, fontname="Helvetica", fontsize=10];`,
+  ...graph.nodes.map(node => {
+    const attrs = dotAttributes(nodeAttributes(node));
+    const outline = node.highlighted ? `, color=${dot(COLORS.highlight)}, penwidth=3` : '';
+    return `  ${dot(node.id)} [label=${dot(node.label)}, fillcolor=${dot(GROUP_COLORS[node.group])}${outline}, ${attrs.join(', ')}];`;
+  }),
+  ...graph.links.map(link => {
+    const attrs = dotAttributes(linkAttributes(link, summary));
+    const dir = DIRECTED_CONNECTION_TYPES.includes(link.type) ? '' : 'dir=none, ';
+    return `  ${dot(link.source)} -> ${dot(link.target)} [${dir}${attrs.join(', ')}];`;
+  }),
+  `}`,
+].join('\n');
+
+const neo4jType = (type: AttributeType) => type === 'integer' ? 'int' : type === 'double' ? 'float' : type;
+const neo4jLabel = (group: Node['group']) => group.charAt(0).toUpperCase() + group.slice(1);
+
+// neo4j-admin import: a nodes file and a relationships file. Relationship types are the ConnectionType.
+export const buildNeo4jCsv = (graph: GraphData, summary: AnalysisSummary | null) => {
+  const nodeHeader = ['id:ID', 'label', ...NODE_ATTRIBUTES.map(a => `${a.key}:${neo4jType(a.type)}`), ':LABEL'];
+  const nodes = graph.nodes.map(node => {
+    const attrs = nodeAttributes(node);
+    return [
+      node.id,
+      node.label,
+      ...NODE_ATTRIBUTES.map(a => attrs[a.key]),
+      `Address;${neo4jLabel(node.group)}`,
+    ].map(csvCell).join(',');
+  });
+
+  const linkColumns = LINK_ATTRIBUTES.filter(a => a.key !== 'type'); // Carried by :TYPE
+  const relationshipHeader = [':START_ID', ':END_ID', ':TYPE', ...linkColumns.map(a => `${a.key}:${neo4jType(a.type)}`)];
+  const relationships = graph.links.map(link => {
+    const attrs = linkAttributes(link, summary);
+    return [
+      link.source,
+      link.target,
+      link.type,
+      ...linkColumns.map(a => attrs[a.key]),
+    ].map(csvCell).join(',');
+  });
+
+  return {
+    nodes: [nodeHeader.join(','), ...nodes].join('\n'),
+    relationships: [relationshipHeader.join(','), ...relationships].join('\n'),
+  };
+};
+
+// Plain edge list for spreadsheets and scripts: one row per link, with both ends' groups
+export const buildEdgeListCsv = (graph: GraphData, summary: AnalysisSummary | null) => {
+  const groups = new Map(graph.nodes.map(n => [n.id, n.group]));
+  const header = ['source', 'sourceGroup', 'target', 'targetGroup', ...LINK_ATTRIBUTES.map(a => a.key)];
+  const rows = graph.links.map(link => {
+    const attrs = linkAttributes(link, summary);
+    return [
+      link.source,
+      groups.get(link.source),
+      link.target,
+      groups.get(link.target),
+      ...LINK_ATTRIBUTES.map(a => attrs[a.key]),
+    ].map(csvCell).join(',');
+  });
+  return [header.join(','), ...rows].join('\n');
+};
@@ -0,0 +1,79 @@
+import { FOCUS_MAX_HOPS } from '../constants';
+import { GraphData, GraphFilter, Link } from '../types';
+
+export const DEFAULT_GRAPH_FILTER: GraphFilter = {
+  hiddenTypes: [],
+  minLinkValue: 0,
+  showPrograms: true,
+  focusPair: null,
+};
+
+export const isFilterActive = (filter: GraphFilter) =>
+  filter.hiddenTypes.length > 0 || filter.minLinkValue > 0 || !filter.showPrograms || filter.focusPair !== null;
+
+// Link hops from `start` to every node within `maxHops`; paths may end at `barrier` but not pass it
+const hopDistances = (start: string, links: Link[], maxHops: number, barrier: string): Map<string, number> => {
+  const neighbors = new Map<string, string[]>();
+  links.forEach(l => {
+    if (!neighbors.has(l.source)) neighbors.set(l.source, []);
+    if (!neighbors.has(l.target)) neighbors.set(l.target, []);
+    neighbors.get(l.source)!.push(l.target);
+    neighbors.get(l.target)!.push(l.source);
+  });
+
+  const distance = new Map([[start, 0]]);
+  let frontier = [start];
+  for (let hop = 1; hop <= maxHops && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    frontier.forEach(id => (neighbors.get(id) || []).forEach(other => {
+      if (distance.has(other)) return;
+      distance.set(other, hop);
+      if (other !== barrier) next.push(other);
+    }));
+    frontier = next;
+  }
+  return distance;
+};
+
+/**
+ * Narrows an analysed graph to what the filter asks for. Inputs always stay (outside focus mode);
+ * other nodes are dropped once none of their links survive. In focus mode only nodes on a path of
+ * at most FOCUS_MAX_HOPS links between the two inputs are kept, with the links along those paths.
+ */
+export const filterGraph = (graph: GraphData, filter: GraphFilter): GraphData => {
+  if (!isFilterActive(filter)) return graph;
+  const hidden = new Set(filter.hiddenTypes);
+  const dropped = new Set(filter.showPrograms ? [] : graph.nodes.filter(n => n.group === 'program').map(n => n.id));
+
+  let links = graph.links.filter(l =>
+    !hidden.has(l.type) && l.value >= filter.minLinkValue && !dropped.has(l.source) && !dropped.has(l.target));
+  let keep: (id: string) => boolean;
+
+  if (filter.focusPair) {
+    const [a, b] = filter.focusPair;
+    const fromA = hopDistances(a, links, FOCUS_MAX_HOPS, b);
+    const fromB = hopDistances(b, links, FOCUS_MAX_HOPS, a);
+    // A link lies between them when some short A -> B walk runs along it, in either direction
+    const onPath = (from: string, to: string) =>
+      fromA.has(from) && fromB.has(to) && fromA.get(from)! + 1 + fromB.get(to)! <= FOCUS_MAX_HOPS;
+    links = links.filter(l => onPath(l.source, l.target) || onPath(l.target, l.source));
+
+    // Walks can double back into dead ends; anything but the endpoints needs a way in and a way out
+    let pruned = true;
+    while (pruned) {
+      const degree = new Map<string, number>();
+      links.forEach(l => [l.source, l.target].forEach(id => degree.set(id, (degree.get(id) || 0) + 1)));
+      const before = links.length;
+      links = links.filter(l => [l.source, l.target].every(id => id === a || id === b || degree.get(id)! >= 2));
+      pruned = links.length < before;
+    }
+    const linked = new Set(links.flatMap(l => [l.source, l.target]));
+    keep = id => id === a || id === b || linked.has(id);
+  } else {
+    const linked = new Set(links.flatMap(l => [l.source, l.target]));
+    const inputs = new Set(graph.nodes.filter(n => n.group === 'input').map(n => n.id));
+    keep = id => inputs.has(id) || linked.has(id);
+  }
+
+  return { nodes: graph.nodes.filter(n => keep(n.id)), links };
+};
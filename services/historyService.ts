@@ -0,0 +1,64 @@
+import { MAX_TX_FETCH, FULL_HISTORY_MAX_TX } from '../constants';
+import { AnalysisConfig, HistoryOptions, ParsedTxInfo, TimeRange, TransferRecord, WalletCoverage } from '../types';
+
+export const DEFAULT_HISTORY_OPTIONS: HistoryOptions = { limit: MAX_TX_FETCH };
+
+export const toHistoryOptions = (config: AnalysisConfig): HistoryOptions => ({
+  limit: config.maxTransactions,
+  fromTime: config.fromTime,
+  toTime: config.toTime,
+  fullHistory: config.fullHistory,
+});
+
+// Full-history crawls ignore the slider and only stop at the safety cap
+export const effectiveLimit = (options: HistoryOptions) =>
+  options.fullHistory ? FULL_HISTORY_MAX_TX : options.limit;
+
+export const isWithinRange = (blockTime: number, options: HistoryOptions) =>
+  (options.fromTime === undefined || blockTime >= options.fromTime) &&
+  (options.toTime === undefined || blockTime <= options.toTime);
+
+// Narrows already-fetched histories to a window, e.g. the timeline brush, without refetching
+export const filterHistoriesByTime = (
+  histories: { [address: string]: ParsedTxInfo[] },
+  range: TimeRange
+): { [address: string]: ParsedTxInfo[] } =>
+  Object.fromEntries(Object.entries(histories).map(([addr, txs]) => [
+    addr,
+    txs.filter(tx => isWithinRange(tx.blockTime, { limit: 0, fromTime: range.from, toTime: range.to }))
+  ]));
+
+// A history with `missing` transactions is never complete
+export const buildCoverage = (
+  transactions: ParsedTxInfo[],
+  signaturesFound: number,
+  complete: boolean,
+  missing: number = 0
+): WalletCoverage => {
+  const times = transactions.map(tx => tx.blockTime).filter(t => t > 0);
+  return {
+    fetched: transactions.length,
+    signaturesFound,
+    oldestBlockTime: times.length ? Math.min(...times) : null,
+    newestBlockTime: times.length ? Math.max(...times) : null,
+    complete: complete && missing === 0,
+    ...(missing > 0 && { missing }),
+  };
+};
+
+export const toTransfer = (
+  from: string,
+  to: string,
+  mint: string,
+  amount: number,
+  monitoredAddress: string
+): TransferRecord => ({
+  from,
+  to,
+  mint,
+  amount,
+  direction: from === monitoredAddress && to === monitoredAddress ? 'self'
+    : from === monitoredAddress ? 'out'
+    : to === monitoredAddress ? 'in'
+    : 'external'
+});
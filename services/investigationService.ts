@@ -0,0 +1,112 @@
+import { Investigation, InvestigationBundle, InvestigationMeta } from '../types';
+import { requestToPromise, transactionDone } from './cacheService';
+
+const DB_NAME = 'nexustracker-investigations';
+const DB_VERSION = 1;
+const CASE_STORE = 'investigations';
+const INDEX_STORE = 'index'; // Metadata only, so listing never loads fetched histories
+
+const BUNDLE_FORMAT = 'nexustracker-investigation';
+export const INVESTIGATION_BUNDLE_VERSION = 1;
+
+export const isInvestigationStorageAvailable = () => typeof indexedDB !== 'undefined';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CASE_STORE)) db.createObjectStore(CASE_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(INDEX_STORE)) db.createObjectStore(INDEX_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const createInvestigationId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const toMeta = ({ id, name, chain, addresses, createdAt, updatedAt }: Investigation): InvestigationMeta =>
+  ({ id, name, chain, addresses, createdAt, updatedAt });
+
+// Most recently updated first
+export const listInvestigations = async (): Promise<InvestigationMeta[]> => {
+  if (!isInvestigationStorageAvailable()) return [];
+  const db = await openDb();
+  const store = db.transaction(INDEX_STORE, 'readonly').objectStore(INDEX_STORE);
+  const all = await requestToPromise<InvestigationMeta[]>(store.getAll());
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadInvestigation = async (id: string): Promise<Investigation | undefined> => {
+  const db = await openDb();
+  const store = db.transaction(CASE_STORE, 'readonly').objectStore(CASE_STORE);
+  return requestToPromise<Investigation | undefined>(store.get(id));
+};
+
+export const saveInvestigation = async (investigation: Investigation) => {
+  const db = await openDb();
+  const tx = db.transaction([CASE_STORE, INDEX_STORE], 'readwrite');
+  tx.objectStore(CASE_STORE).put(investigation);
+  tx.objectStore(INDEX_STORE).put(toMeta(investigation));
+  await transactionDone(tx);
+};
+
+export const deleteInvestigation = async (id: string) => {
+  const db = await openDb();
+  const tx = db.transaction([CASE_STORE, INDEX_STORE], 'readwrite');
+  tx.objectStore(CASE_STORE).delete(id);
+  tx.objectStore(INDEX_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+export const exportInvestigationBundle = (investigation: Investigation): string => {
+  const bundle: InvestigationBundle = {
+    format: BUNDLE_FORMAT,
+    version: INVESTIGATION_BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    investigation,
+  };
+  return JSON.stringify(bundle);
+};
+
+/**
+ * Reads a bundle file. Throws with a user-facing message when the file isn't a bundle,
+ * was written by a newer version, or lacks the parts needed to reopen the case.
+ * The imported case gets a fresh id so it never overwrites a local one.
+ */
+export const parseInvestigationBundle = (text: string): Investigation => {
+  let bundle: Partial<InvestigationBundle>;
+  try {
+    bundle = JSON.parse(text);
+  } catch (e) {
+    throw new Error('Not a JSON file');
+  }
+  if (bundle?.format !== BUNDLE_FORMAT) throw new Error('Not an investigation bundle');
+  if (typeof bundle.version !== 'number' || bundle.version > INVESTIGATION_BUNDLE_VERSION) {
+    throw new Error(`Bundle version ${bundle.version} is newer than this app supports (${INVESTIGATION_BUNDLE_VERSION})`);
+  }
+
+  const investigation = bundle.investigation;
+  if (!investigation || !Array.isArray(investigation.addresses) || !investigation.config ||
+      !investigation.fetched?.txData || !investigation.summary || !investigation.graph) {
+    throw new Error('Bundle is missing investigation data');
+  }
+
+  const now = Date.now();
+  return { ...investigation, id: createInvestigationId(), notes: investigation.notes || '', createdAt: investigation.createdAt || now, updatedAt: now };
+};
+
+export const investigationFileName = (name: string) =>
+  `${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'investigation'}.nexus-case.json`;
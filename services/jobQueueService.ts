@@ -0,0 +1,147 @@
+import { AnalysisConfig, AnalysisResult, ApiJobInfo, ChainId } from '../types';
+import { API_JOB_CONCURRENCY, API_JOB_RETENTION_MS, API_MAX_QUEUED_JOBS } from '../constants';
+import { createChainAdapter } from './chainService';
+import { labelsForChain, loadLabelRegistry } from './labelService';
+import { analyzeFetched, fetchInvestigationData } from './pipelineService';
+
+export interface JobRequest {
+  chain: ChainId;
+  addresses: string[];
+  config: AnalysisConfig;
+}
+
+export interface JobQueueOptions {
+  concurrency?: number; // Jobs fetching at once
+  maxQueued?: number; // Waiting jobs before submit() refuses more
+  retentionMs?: number; // Finished jobs (and their results) are dropped this long after finishing
+}
+
+// submit() when the queue already holds maxQueued waiting jobs
+export class QueueFullError extends Error {}
+
+interface Job {
+  info: ApiJobInfo;
+  controller: AbortController;
+  result?: AnalysisResult;
+  finishedAt?: number;
+}
+
+/**
+ * Runs analyses one (or `concurrency`) at a time so callers can't multiply the load on the public
+ * RPC endpoints. Cancelling a running job aborts its requests in flight.
+ */
+export const createJobQueue = ({
+  concurrency = API_JOB_CONCURRENCY,
+  maxQueued = API_MAX_QUEUED_JOBS,
+  retentionMs = API_JOB_RETENTION_MS,
+}: JobQueueOptions = {}) => {
+  const jobs = new Map<string, Job>();
+  const waiting: Job[] = [];
+  let running = 0;
+
+  const snapshot = (job: Job): ApiJobInfo => {
+    const index = waiting.indexOf(job);
+    return { ...job.info, progress: { ...job.info.progress }, ...(index >= 0 && { position: index + 1 }) };
+  };
+
+  const finish = (job: Job, status: ApiJobInfo['status'], error?: string) => {
+    job.info.status = status;
+    job.info.finishedAt = new Date().toISOString();
+    job.finishedAt = Date.now();
+    if (status === 'cancelled') job.info.progress.message = "Cancelled";
+    if (error) job.info.error = error;
+  };
+
+  const prune = () => {
+    const cutoff = Date.now() - retentionMs;
+    jobs.forEach((job, id) => { if (job.finishedAt !== undefined && job.finishedAt < cutoff) jobs.delete(id); });
+  };
+
+  const run = async (job: Job) => {
+    const { chain, addresses, config, progress } = job.info;
+    job.info.status = 'running';
+    job.info.startedAt = new Date().toISOString();
+    try {
+      // An adapter of its own, bound to the job's signal, so cancelling stops the network work at once
+      const adapter = createChainAdapter(chain, undefined, job.controller.signal);
+      const fetched = await fetchInvestigationData(adapter, addresses, config, {
+        signal: job.controller.signal,
+        onStatus: message => { progress.message = message; },
+        onHistory: (_, done) => { progress.fetchedWallets = done; },
+      });
+      job.controller.signal.throwIfAborted();
+      progress.message = "Running heuristics & identifying clusters...";
+      job.result = analyzeFetched(fetched, config, { labels: labelsForChain(loadLabelRegistry(), chain) });
+      progress.message = "Done";
+      finish(job, 'done');
+    } catch (error) {
+      if (job.controller.signal.aborted) {
+        finish(job, 'cancelled');
+      } else {
+        console.error(`Job ${job.info.id} failed`, error);
+        finish(job, 'failed', error instanceof Error ? error.message : String(error));
+      }
+    }
+  };
+
+  const next = () => {
+    while (running < concurrency && waiting.length > 0) {
+      const job = waiting.shift()!;
+      running++;
+      run(job).finally(() => {
+        running--;
+        next();
+      });
+    }
+  };
+
+  const submit = (request: JobRequest): ApiJobInfo => {
+    prune();
+    if (waiting.length >= maxQueued) throw new QueueFullError(`The queue is full (${maxQueued} waiting); try again later`);
+    const job: Job = {
+      info: {
+        id: crypto.randomUUID(),
+        ...request,
+        status: 'queued',
+        progress: { message: "Queued", fetchedWallets: 0, totalWallets: request.addresses.length },
+        createdAt: new Date().toISOString(),
+      },
+      controller: new AbortController(),
+    };
+    jobs.set(job.info.id, job);
+    waiting.push(job);
+    next();
+    return snapshot(job);
+  };
+
+  // Queued jobs leave the queue at once; running ones stop fetching and end up 'cancelled'.
+  // Returns undefined for unknown jobs, and the job unchanged when it had already finished.
+  const cancel = (id: string): ApiJobInfo | undefined => {
+    const job = jobs.get(id);
+    if (!job) return undefined;
+    if (job.info.status === 'queued') {
+      waiting.splice(waiting.indexOf(job), 1);
+      finish(job, 'cancelled');
+    } else if (job.info.status === 'running') {
+      job.controller.abort();
+      job.info.progress.message = "Cancelling...";
+    }
+    return snapshot(job);
+  };
+
+  return {
+    submit,
+    cancel,
+    get: (id: string) => {
+      const job = jobs.get(id);
+      return job && snapshot(job);
+    },
+    result: (id: string) => jobs.get(id)?.result,
+    list: () => {
+      prune();
+      return Array.from(jobs.values(), snapshot);
+    }
+  };
+};
+
+export type JobQueue = ReturnType<typeof createJobQueue>;
@@ -0,0 +1,133 @@
+import { KNOWN_ENTITY_LABELS } from '../constants';
+import { ChainId, EntityCategory, EntityLabel, LabelPolicy, LabelRegistry } from '../types';
+
+const STORAGE_KEY = 'nexustracker-labels';
+
+// Exchanges and DEX routers touch everyone, so by default they don't link wallets at all
+export const DEFAULT_LABEL_POLICIES: Record<EntityCategory, LabelPolicy> = {
+  [EntityCategory.EXCHANGE]: 'ignore',
+  [EntityCategory.DEX]: 'ignore',
+  [EntityCategory.BRIDGE]: 'downweight',
+  [EntityCategory.MIXER]: 'highlight',
+  [EntityCategory.SCAM]: 'highlight',
+};
+
+export interface LabelImportResult {
+  labels: EntityLabel[];
+  errors: string[]; // One per rejected line / entry
+}
+
+// EVM and bech32 addresses are case-insensitive; base58 ones are not
+export const normalizeLabelAddress = (address: string) => {
+  const trimmed = address.trim();
+  return /^(0x|bc1|tb1)/i.test(trimmed) ? trimmed.toLowerCase() : trimmed;
+};
+
+const parseCategory = (value: unknown): EntityCategory | null => {
+  const upper = String(value ?? '').trim().toUpperCase();
+  return Object.values(EntityCategory).includes(upper as EntityCategory) ? upper as EntityCategory : null;
+};
+
+const parseChain = (value: unknown): ChainId | undefined | null => {
+  const upper = String(value ?? '').trim().toUpperCase();
+  if (!upper) return undefined;
+  return Object.values(ChainId).includes(upper as ChainId) ? upper as ChainId : null;
+};
+
+// Validates one raw entry; returns an error message instead of a label when it's unusable
+const toLabel = (raw: { address?: unknown; name?: unknown; category?: unknown; chain?: unknown }): EntityLabel | string => {
+  const address = typeof raw.address === 'string' ? normalizeLabelAddress(raw.address) : '';
+  if (!address) return 'missing address';
+  const category = parseCategory(raw.category);
+  if (!category) return `unknown category "${raw.category ?? ''}"`;
+  const chain = parseChain(raw.chain);
+  if (chain === null) return `unknown chain "${raw.chain}"`;
+  const name = String(raw.name ?? '').trim() || `${address.slice(0, 6)}...`;
+  return chain ? { address, name, category, chain } : { address, name, category };
+};
+
+export const createLabelRegistry = (
+  labels: EntityLabel[] = [],
+  policies: Record<EntityCategory, LabelPolicy> = DEFAULT_LABEL_POLICIES
+): LabelRegistry => ({
+  labels: Object.fromEntries(labels.map(l => [normalizeLabelAddress(l.address), l])),
+  policies: { ...DEFAULT_LABEL_POLICIES, ...policies },
+});
+
+export const loadLabelRegistry = (): LabelRegistry => {
+  if (typeof localStorage === 'undefined') return createLabelRegistry(KNOWN_ENTITY_LABELS);
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return createLabelRegistry(KNOWN_ENTITY_LABELS);
+    const parsed = JSON.parse(stored);
+    return createLabelRegistry(Object.values(parsed.labels || {}), parsed.policies);
+  } catch (error) {
+    console.warn('Failed to read saved labels, using the built-in set', error);
+    return createLabelRegistry(KNOWN_ENTITY_LABELS);
+  }
+};
+
+export const saveLabelRegistry = (registry: LabelRegistry) => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(registry));
+};
+
+/**
+ * Parses a label file. JSON: an array of labels, or `{ labels: [...] }`.
+ * CSV: `address,name,category[,chain]` per line, with an optional header row.
+ */
+export const parseLabelFile = (text: string): LabelImportResult => {
+  const labels: EntityLabel[] = [];
+  const errors: string[] = [];
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let entries: unknown;
+    try {
+      const parsed = JSON.parse(trimmed);
+      entries = Array.isArray(parsed) ? parsed : parsed.labels;
+    } catch (error) {
+      return { labels, errors: [`Invalid JSON: ${(error as Error).message}`] };
+    }
+    if (!Array.isArray(entries)) return { labels, errors: ['Expected an array of labels'] };
+    entries.forEach((entry, i) => {
+      const result = toLabel(entry || {});
+      if (typeof result === 'string') errors.push(`Entry ${i + 1}: ${result}`); else labels.push(result);
+    });
+    return { labels, errors };
+  }
+
+  trimmed.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim() || line.trim().startsWith('#')) return;
+    const [address, name, category, chain] = line.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
+    if (i === 0 && address.toLowerCase() === 'address') return; // Header
+    const result = toLabel({ address, name, category, chain });
+    if (typeof result === 'string') errors.push(`Line ${i + 1}: ${result}`); else labels.push(result);
+  });
+  return { labels, errors };
+};
+
+export const exportLabelRegistry = (registry: LabelRegistry) =>
+  JSON.stringify({ labels: Object.values(registry.labels), policies: registry.policies }, null, 2);
+
+// Drops labels pinned to another chain
+export const labelsForChain = (registry: LabelRegistry, chain: ChainId): LabelRegistry => ({
+  ...registry,
+  labels: Object.fromEntries(
+    Object.entries(registry.labels).filter(([, label]: [string, EntityLabel]) => !label.chain || label.chain === chain)
+  ),
+});
+
+export const getLabel = (registry: LabelRegistry | undefined, address: string): EntityLabel | undefined =>
+  registry?.labels[normalizeLabelAddress(address)];
+
+export const getPolicy = (registry: LabelRegistry | undefined, address: string): LabelPolicy | undefined => {
+  const label = getLabel(registry, address);
+  return label ? registry!.policies[label.category] : undefined;
+};
+
+// "Binance 14 (exchange)" for labelled addresses, a short address otherwise
+export const describeAddress = (registry: LabelRegistry | undefined, address: string) => {
+  const label = getLabel(registry, address);
+  return label ? `${label.name} (${label.category.toLowerCase()})` : `${address.slice(0, 4)}..`;
+};
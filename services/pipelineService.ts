@@ -0,0 +1,83 @@
+import { AnalysisConfig, AnalysisResult, ChainAdapter, FetchedHistories, LabelRegistry, ParsedTxInfo, ScoringProfile, TimeRange, WalletCoverage } from '../types';
+import { analyzeConnections } from './analysisService';
+import { fetchHistoriesWithCache } from './cacheService';
+import { filterHistoriesByTime, toHistoryOptions } from './historyService';
+import { expandIntermediaries } from './tracingService';
+import { findFundingSources } from './fundingService';
+import { resolveNftCollections } from './assetService';
+
+export interface FetchProgress {
+  onStatus?: (message: string) => void;
+  // After each wallet's history arrives, with everything fetched so far
+  onHistory?: (fetched: FetchedHistories, done: number, total: number) => void;
+  // Checked between steps. Bind the adapter to it too (createChainAdapter) to cancel requests in flight.
+  signal?: AbortSignal;
+}
+
+/**
+ * Everything an investigation needs from the network: the inputs' histories, then (as configured)
+ * intermediary histories, funding sources and NFT collections.
+ */
+export const fetchInvestigationData = async (
+  adapter: ChainAdapter,
+  addresses: string[],
+  config: AnalysisConfig,
+  { onStatus, onHistory, signal }: FetchProgress = {}
+): Promise<FetchedHistories> => {
+  const checkAborted = () => signal?.throwIfAborted();
+  const txData: { [addr: string]: ParsedTxInfo[] } = {};
+  const coverage: { [addr: string]: WalletCoverage } = {};
+
+  onStatus?.(config.fullHistory ? "Crawling full histories..." : `Fetching last ${config.maxTransactions} txs per wallet...`);
+  checkAborted();
+  await fetchHistoriesWithCache(adapter, addresses, toHistoryOptions(config), (done, total, addr, history) => {
+    checkAborted();
+    txData[addr] = history.transactions;
+    coverage[addr] = history.coverage;
+    onStatus?.(config.fullHistory
+      ? `Crawling full histories (${done}/${total})...`
+      : `Fetching last ${config.maxTransactions} txs per wallet (${done}/${total})...`);
+    onHistory?.({ txData: { ...txData }, coverage: { ...coverage }, intermediaries: {}, fundingSources: {}, collections: {} }, done, total);
+  });
+
+  const intermediaries = config.traceIntermediaries
+    ? await expandIntermediaries(adapter, txData, config, (addr, fetched, budget) => {
+        checkAborted();
+        onStatus?.(`Tracing intermediary ${addr.slice(0, 4)}... (${fetched}/${budget})`);
+      })
+    : {};
+
+  const fundingSources = config.analyzeFunding
+    ? await findFundingSources(adapter, txData, coverage, config, (addr) => {
+        checkAborted();
+        onStatus?.(`Locating funding source of ${addr.slice(0, 4)}...`);
+      })
+    : {};
+
+  checkAborted();
+  onStatus?.("Resolving NFT collections...");
+  const collections = await resolveNftCollections(adapter, txData);
+
+  // Input order, not arrival order
+  return {
+    txData: Object.fromEntries(addresses.map(addr => [addr, txData[addr]])),
+    coverage,
+    intermediaries,
+    fundingSources,
+    collections
+  };
+};
+
+/**
+ * Runs the heuristics on fetched data. A time range narrows the inputs and traced intermediaries;
+ * funding lookups describe the wallets, not the window, so they are kept.
+ */
+export const analyzeFetched = (
+  fetched: FetchedHistories,
+  config: AnalysisConfig,
+  { labels, scoring, timeRange }: { labels?: LabelRegistry; scoring?: ScoringProfile; timeRange?: TimeRange | null }
+): AnalysisResult => {
+  const txData = timeRange ? filterHistoriesByTime(fetched.txData, timeRange) : fetched.txData;
+  const intermediaries = timeRange ? filterHistoriesByTime(fetched.intermediaries, timeRange) : fetched.intermediaries;
+  return analyzeConnections(txData, config, { ...fetched, intermediaries, labels, scoring });
+};
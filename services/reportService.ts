@@ -0,0 +1,200 @@
+import { AnalysisConfig, AnalysisSummary, ChainAdapter, TimeRange } from '../types';
+
+export interface ReportInput {
+  title: string; // Case name, or a generic title for unsaved analyses
+  adapter: ChainAdapter;
+  addresses: string[];
+  config: AnalysisConfig;
+  summary: AnalysisSummary;
+  timeRange: TimeRange | null;
+  graphMarkup: string | null; // From snapshotGraphSvg or snapshotGraphCanvas; omitted from the report when null
+  aiInsight: string | null;
+  notes?: string;
+  generatedAt?: number; // ms; defaults to now
+}
+
+const html = (value: string | number | undefined | null) => String(value ?? '')
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const isoTime = (blockTime: number | null | undefined) =>
+  blockTime ? new Date(blockTime * 1000).toISOString().replace('T', ' ').slice(0, 19) + ' UTC' : '—';
+
+const shortAddr = (address: string) => address.length > 12 ? `${address.slice(0, 6)}…${address.slice(-4)}` : address;
+
+/**
+ * Serialises the rendered graph as a standalone SVG: the zoom transform is dropped and the
+ * viewBox fitted to the drawing, so the snapshot shows the whole graph whatever the view.
+ */
+export const snapshotGraphSvg = (svg: SVGSVGElement): string | null => {
+  const root = svg.querySelector(':scope > g') as SVGGElement | null;
+  if (!root) return null;
+  const box = root.getBBox();
+  if (!box.width || !box.height) return null;
+  const pad = 20;
+
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.querySelector(':scope > g')?.removeAttribute('transform');
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('viewBox', `${box.x - pad} ${box.y - pad} ${box.width + pad * 2} ${box.height + pad * 2}`);
+  clone.setAttribute('width', '100%');
+  clone.removeAttribute('height');
+  clone.removeAttribute('class');
+  return new XMLSerializer().serializeToString(clone);
+};
+
+// Large graphs are drawn on a canvas; its pixels are embedded as they are currently framed
+export const snapshotGraphCanvas = (canvas: HTMLCanvasElement): string | null =>
+  canvas.width && canvas.height ? `<img src="${canvas.toDataURL('image/png')}" alt="Connection graph">` : null;
+
+const CONFIG_ROWS: { label: string; value: (c: AnalysisConfig) => string | number | undefined }[] = [
+  { label: 'Max transactions per wallet', value: c => c.fullHistory ? 'full history' : c.maxTransactions },
+  { label: 'Time-proximity window', value: c => `${c.timeWindowSeconds}s` },
+  { label: 'Shared programs as evidence', value: c => c.includePrograms ? 'yes' : 'no' },
+  { label: 'History from', value: c => c.fromTime ? isoTime(c.fromTime) : undefined },
+  { label: 'History to', value: c => c.toTime ? isoTime(c.toTime) : undefined },
+  { label: 'Multi-hop tracing', value: c => c.traceIntermediaries ? `depth ${c.traceDepth ?? 1}, budget ${c.traceBudget ?? '—'}` : 'off' },
+  { label: 'Funding analysis', value: c => c.analyzeFunding ? 'on' : 'off' },
+];
+
+const STYLES = `
+  :root { color-scheme: light; }
+  body { font: 13px/1.5 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #0f172a; margin: 0 auto; max-width: 1000px; padding: 32px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 28px 0 8px; padding-bottom: 4px; border-bottom: 1px solid #cbd5e1; }
+  .meta { color: #475569; font-size: 12px; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th, td { text-align: left; vertical-align: top; padding: 4px 6px; border-bottom: 1px solid #e2e8f0; }
+  th { background: #f1f5f9; font-weight: 600; }
+  .mono { font-family: ui-monospace, Menlo, Consolas, monospace; word-break: break-all; }
+  .score { font-size: 28px; font-weight: 700; }
+  .high { color: #dc2626; } .medium { color: #d97706; } .low { color: #059669; }
+  .pair { background: #f8fafc; font-weight: 600; }
+  .sigs a { color: #2563eb; text-decoration: none; display: inline-block; margin-right: 6px; }
+  .graph { background: #0f172a; border-radius: 8px; padding: 8px; }
+  .graph svg { display: block; max-height: 700px; }
+  .graph img { display: block; width: 100%; }
+  .prose p { margin: 0 0 6px; white-space: pre-wrap; }
+  .muted { color: #64748b; font-style: italic; }
+  @page { size: A4; margin: 14mm; }
+  @media print {
+    body { padding: 0; max-width: none; font-size: 11px; }
+    h2 { break-after: avoid; }
+    tr, .graph { break-inside: avoid; }
+    .graph, th, .pair { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    .sigs a { color: inherit; }
+  }
+`;
+
+const scoreClass = (score: number) => score > 70 ? 'high' : score > 40 ? 'medium' : 'low';
+
+/**
+ * One self-contained HTML document for people who won't open the app: inputs, settings, score,
+ * the full evidence table, a graph snapshot and the AI insight. Print it to get a PDF.
+ */
+export const buildHtmlReport = (input: ReportInput): string => {
+  const { title, adapter, addresses, config, summary, timeRange, graphMarkup, aiInsight, notes } = input;
+  const generatedAt = new Date(input.generatedAt ?? Date.now()).toISOString();
+  const clusterOf = new Map(summary.entityClusters.flatMap(c => c.members.map(m => [m, c.id] as [string, number])));
+
+  const wallets = addresses.map(address => {
+    const cov = summary.coverage[address];
+    return `<tr>
+      <td class="mono">${html(address)}</td>
+      <td>${html(cov?.fetched ?? 0)}${cov && !cov.complete ? ' (partial)' : ''}</td>
+      <td>${isoTime(cov?.oldestBlockTime)}</td>
+      <td>${isoTime(cov?.newestBlockTime)}</td>
+      <td>${clusterOf.has(address) ? `#${clusterOf.get(address)}` : '—'}</td>
+    </tr>`;
+  }).join('');
+
+  const configRows = CONFIG_ROWS
+    .map(row => ({ label: row.label, value: row.value(config) }))
+    .filter(row => row.value !== undefined)
+    .map(row => `<tr><th>${html(row.label)}</th><td>${html(row.value)}</td></tr>`)
+    .join('');
+
+  const times = Object.values(summary.coverage).flatMap(c => [c.oldestBlockTime, c.newestBlockTime]).filter((t): t is number => !!t);
+  const coverageWindow = times.length ? `${isoTime(Math.min(...times))} → ${isoTime(Math.max(...times))}` : '—';
+
+  const entities = summary.entityClusters.map(c => `<tr>
+      <td>#${c.id}</td>
+      <td>${c.confidence}%</td>
+      <td class="mono">${c.members.map(html).join('<br>')}</td>
+      <td class="mono">${html(shortAddr(c.weakestLink.addressA))} ↔ ${html(shortAddr(c.weakestLink.addressB))} (${c.weakestLink.score}%)</td>
+    </tr>`).join('');
+
+  const evidence = summary.connectedPairs.map(pair => [
+    `<tr class="pair">
+      <td colspan="2" class="mono">${html(pair.addressA)}<br>↔ ${html(pair.addressB)}</td>
+      <td class="${scoreClass(pair.score)}">${pair.score}%</td>
+      <td colspan="2"></td>
+    </tr>`,
+    ...pair.breakdown.items.map(item => `<tr>
+      <td>${html(item.type)}</td>
+      <td>${html(item.reason)}</td>
+      <td>+${(item.probability * 100).toFixed(1)}%</td>
+      <td>${item.timestamps.length ? item.timestamps.map(isoTime).join('<br>') : '—'}</td>
+      <td class="sigs mono">${item.signatures.map(sig => `<a href="${html(adapter.explorerTxUrl(sig))}">${html(shortAddr(sig))}</a>`).join('') || '—'}</td>
+    </tr>`),
+  ].join('')).join('');
+
+  const paragraphs = (text: string) => text.split('\n').filter(line => line.trim()).map(line => `<p>${html(line)}</p>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${html(title)} — NexusTracker report</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>${html(title)}</h1>
+<div class="meta">NexusTracker report · ${html(adapter.name)} · generated ${html(generatedAt)}</div>
+
+<h2>Confidence</h2>
+<div class="score ${scoreClass(summary.confidenceScore)}">${summary.confidenceScore}%</div>
+<div class="meta">
+  ${summary.connectedPairs.length} linked pair(s) · ${summary.entityClusters.length} probable entit${summary.entityClusters.length === 1 ? 'y' : 'ies'} ·
+  ${summary.totalTransactionsScanned} transactions scanned · scoring profile "${html(summary.scoringProfile)}"
+</div>
+
+<h2>Input Wallets</h2>
+<table>
+  <tr><th>Address</th><th>Transactions</th><th>Oldest</th><th>Newest</th><th>Entity</th></tr>
+  ${wallets}
+</table>
+
+<h2>Data Coverage</h2>
+<table>
+  <tr><th>Fetched window</th><td>${coverageWindow}</td></tr>
+  <tr><th>Analysed window</th><td>${timeRange ? `${isoTime(timeRange.from)} → ${isoTime(timeRange.to)} (narrowed on the timeline)` : 'all fetched transactions'}</td></tr>
+</table>
+
+<h2>Configuration</h2>
+<table>${configRows}</table>
+
+${graphMarkup ? `<h2>Connection Graph</h2>\n<div class="graph">${graphMarkup}</div>` : ''}
+
+${entities ? `<h2>Probable Entities</h2>
+<table>
+  <tr><th>Entity</th><th>Confidence</th><th>Members</th><th>Weakest link</th></tr>
+  ${entities}
+</table>` : ''}
+
+<h2>Evidence</h2>
+${evidence ? `<table>
+  <tr><th>Type</th><th>Reason</th><th>Contribution</th><th>Time</th><th>Transactions</th></tr>
+  ${evidence}
+</table>` : '<p class="muted">No connections between the input wallets were found.</p>'}
+
+<h2>AI Insight</h2>
+${aiInsight ? `<div class="prose">${paragraphs(aiInsight)}</div>` : '<p class="muted">Not generated.</p>'}
+
+${notes?.trim() ? `<h2>Analyst Notes</h2>\n<div class="prose">${paragraphs(notes)}</div>` : ''}
+</body>
+</html>
+`;
+};
+
+export const reportFileName = (title: string) =>
+  `${title.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'nexus'}-report.html`;
@@ -0,0 +1,84 @@
+import { ConnectionType, PairEvidence, ScoreBreakdown, ScoreItem, ScoringProfile } from '../types';
+
+const STORAGE_KEY = 'nexustracker-scoring-profiles';
+
+// Ordered by how strongly one piece of evidence implies common control
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  name: 'Default',
+  weights: {
+    [ConnectionType.CO_SIGN]: 0.65,
+    [ConnectionType.CO_SPEND]: 0.6,
+    [ConnectionType.COMMON_FUNDER]: 0.55,
+    [ConnectionType.DIRECT]: 0.5,
+    [ConnectionType.MULTI_HOP]: 0.45,
+    [ConnectionType.PEEL_CHAIN]: 0.4,
+    [ConnectionType.AMOUNT_MATCH]: 0.35,
+    [ConnectionType.SHARED_ASSET]: 0.35,
+    [ConnectionType.TIME_PROXIMATE]: 0.3,
+    [ConnectionType.BEHAVIOR_FINGERPRINT]: 0.3,
+    [ConnectionType.TEMPORAL_FINGERPRINT]: 0.25,
+    [ConnectionType.MIDDLEMAN]: 0.2,
+    [ConnectionType.SHARED_COUNTERPARTY]: 0.1,
+    [ConnectionType.SHARED_PROGRAM]: 0.05,
+  },
+  diminishingFactor: 0.5,
+};
+
+const clamp01 = (value: number) => Math.min(Math.max(Number.isFinite(value) ? value : 0, 0), 1);
+
+// Fills in weights for evidence types added after the profile was saved
+export const normalizeProfile = (profile: Partial<ScoringProfile>): ScoringProfile => ({
+  name: profile.name || DEFAULT_SCORING_PROFILE.name,
+  weights: Object.fromEntries(Object.values(ConnectionType).map(type => [
+    type,
+    clamp01(profile.weights?.[type] ?? DEFAULT_SCORING_PROFILE.weights[type])
+  ])) as Record<ConnectionType, number>,
+  diminishingFactor: clamp01(profile.diminishingFactor ?? DEFAULT_SCORING_PROFILE.diminishingFactor),
+});
+
+// 1 - prod(1 - p): independent signals, none of which can push the result past 1
+const combine = (probabilities: number[]) => 1 - probabilities.reduce((acc, p) => acc * (1 - p), 1);
+
+/**
+ * Scores one pair. Within each evidence type, items are ranked by strength and the n-th one
+ * is discounted by diminishingFactor^(n-1), so many weak repeats can't outvote one strong signal.
+ */
+export const scorePair = (evidence: PairEvidence[], profile: ScoringProfile): ScoreBreakdown => {
+  const seenPerType = new Map<ConnectionType, number>();
+  const items: ScoreItem[] = [...evidence]
+    .sort((a, b) => profile.weights[b.type] * b.strength - profile.weights[a.type] * a.strength)
+    .map(item => {
+      const rank = seenPerType.get(item.type) || 0;
+      seenPerType.set(item.type, rank + 1);
+      const weight = profile.weights[item.type];
+      const decay = profile.diminishingFactor ** rank;
+      return { ...item, weight, decay, probability: weight * clamp01(item.strength) * decay };
+    });
+
+  return { items, probability: combine(items.map(i => i.probability)) };
+};
+
+// Overall confidence: the strongest pair counts fully, each further pair with diminishing returns
+export const scoreOverall = (pairProbabilities: number[], profile: ScoringProfile): number => {
+  const ranked = [...pairProbabilities].sort((a, b) => b - a);
+  return Math.round(100 * combine(ranked.map((p, i) => p * profile.diminishingFactor ** i)));
+};
+
+export const toScore = (probability: number) => Math.round(probability * 100);
+
+export const loadScoringProfiles = (): ScoringProfile[] => {
+  if (typeof localStorage === 'undefined') return [DEFAULT_SCORING_PROFILE];
+  try {
+    const stored: Partial<ScoringProfile>[] = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return [DEFAULT_SCORING_PROFILE, ...stored.map(normalizeProfile).filter(p => p.name !== DEFAULT_SCORING_PROFILE.name)];
+  } catch (error) {
+    console.warn('Failed to read saved scoring profiles', error);
+    return [DEFAULT_SCORING_PROFILE];
+  }
+};
+
+// The built-in default is never stored, so it can always be restored
+export const saveScoringProfiles = (profiles: ScoringProfile[]) => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles.filter(p => p.name !== DEFAULT_SCORING_PROFILE.name)));
+};
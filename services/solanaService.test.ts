@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const WALLET = '11111111111111111111111111111111';
+const SIGNATURES = Array.from({ length: 6 }, (_, i) => `sig${i}`);
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout'] });
+  let batches = 0;
+  // A JSON-RPC node listing SIGNATURES that fails the first getTransaction batch (getParsedTransactions)
+  vi.stubGlobal('fetch', async (_url: string, init: { body: string }) => {
+    const body = JSON.parse(init.body);
+    if (Array.isArray(body)) {
+      if (batches++ === 0) return new Response('unavailable', { status: 503 });
+      return new Response(JSON.stringify(body.map(call => ({ jsonrpc: '2.0', id: call.id, result: null }))));
+    }
+    const result = body.method === 'getSignaturesForAddress'
+      ? SIGNATURES.map((signature, i) => ({ signature, slot: 100 - i, blockTime: 1000 - i, err: null, memo: null }))
+      : null;
+    return new Response(JSON.stringify({ jsonrpc: '2.0', id: body.id, result }));
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+// web3.js picks up the global fetch when it loads, so import after stubbing it
+const fetchHistory = async () => {
+  const { fetchTransactionHistory } = await import('./solanaService');
+  const pending = fetchTransactionHistory(['http://rpc.test'], WALLET, { limit: 10 });
+  await vi.runAllTimersAsync();
+  return pending;
+};
+
+describe('fetchTransactionHistory', () => {
+  it('reports the signatures of a failed batch as missing', async () => {
+    const history = await fetchHistory();
+    expect(history.coverage.signaturesFound).toBe(6);
+    expect(history.coverage.missing).toBe(5);
+    expect(history.coverage.complete).toBe(false);
+  });
+});
@@ -1,7 +1,8 @@
 
-import { Connection, PublicKey, ParsedTransactionWithMeta } from '@solana/web3.js';
-import { RPC_ENDPOINTS, MAX_TX_FETCH } from '../constants';
-import { ParsedTxInfo } from '../types';
+import { Connection, PublicKey, ParsedTransactionWithMeta, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { SIGNATURE_PAGE_SIZE, FUNDING_TX_COUNT, FUNDING_MAX_SIGNATURE_PAGES, NATIVE_MINT, TOKEN_METADATA_PROGRAM_ID, COMPUTE_BUDGET_PROGRAM_ID } from '../constants';
+import { AssetTouch, ChainAdapter, ChainId, HistoryOptions, ParsedTxInfo, TransactionHistory, TransferRecord, TxBehavior } from '../types';
+import { DEFAULT_HISTORY_OPTIONS, buildCoverage, effectiveLimit, toTransfer } from './historyService';
 
 const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
@@ -14,18 +15,25 @@ export const validateAddress = (address: string): boolean => {
   }
 };
 
-// Helper to execute RPC calls with fallback to multiple endpoints
+// Helper to execute RPC calls with fallback to multiple endpoints. An aborted `signal` cancels the
+// request in flight and is not retried elsewhere.
 const executeWithFallback = async <T>(
-  operation: (connection: Connection) => Promise<T>
+  endpoints: string[],
+  operation: (connection: Connection) => Promise<T>,
+  signal?: AbortSignal
 ): Promise<T> => {
   let lastError: any;
   
-  for (const endpoint of RPC_ENDPOINTS) {
+  for (const endpoint of endpoints) {
     try {
       // Use 'confirmed' commitment for better reliability on public nodes
-      const connection = new Connection(endpoint, 'confirmed');
+      const connection = new Connection(endpoint, {
+        commitment: 'confirmed',
+        ...(signal && { fetch: (input, init) => fetch(input, { ...init, signal }) })
+      });
       return await operation(connection);
     } catch (error: any) {
+      if (signal?.aborted) throw error;
       const errorMsg = error?.message || JSON.stringify(error);
       console.warn(`RPC Error on ${endpoint}:`, errorMsg);
       lastError = error;
@@ -43,57 +51,313 @@ const executeWithFallback = async <T>(
   throw lastError || new Error("All RPC endpoints failed");
 };
 
-export const fetchTransactionHistory = async (address: string, limit: number = MAX_TX_FETCH): Promise<ParsedTxInfo[]> => {
-  try {
-    const pubKey = new PublicKey(address);
+// Fetches & parses signatures in small batches; failed batches are skipped rather than failing the wallet,
+// and counted as `missing` so the caller knows the result has gaps
+const fetchParsedTransactions = async (
+  endpoints: string[],
+  address: string,
+  sigStrings: string[],
+  signal?: AbortSignal
+): Promise<{ transactions: ParsedTxInfo[]; missing: number }> => {
+  const parsedTxs: ParsedTxInfo[] = [];
+  let missing = 0;
+  
+  // Reduced batch size to 5 to avoid 413 Payload Too Large or 429 Too Many Requests
+  const batchSize = 5; 
+
+  for (let i = 0; i < sigStrings.length; i += batchSize) {
+    const batch = sigStrings.slice(i, i + batchSize);
     
-    // Cap limit to 200 for public RPC stability (prevent huge timeouts)
-    // If the user asks for 500, we try 200 to ensure we at least get data.
-    const effectiveLimit = Math.min(limit, 200);
-
-    return await executeWithFallback(async (connection) => {
-      // 1. Fetch signatures
-      // Note: fetching signatures is usually cheap.
-      const signatures = await connection.getSignaturesForAddress(pubKey, { limit: effectiveLimit });
-      
-      const sigStrings = signatures.map(s => s.signature);
-      const parsedTxs: ParsedTxInfo[] = [];
+    try {
+      const txs = await executeWithFallback(endpoints, connection =>
+        connection.getParsedTransactions(batch, { maxSupportedTransactionVersion: 0 }), signal
+      );
       
-      // Reduced batch size to 5 to avoid 413 Payload Too Large or 429 Too Many Requests
-      const batchSize = 5; 
-
-      for (let i = 0; i < sigStrings.length; i += batchSize) {
-        const batch = sigStrings.slice(i, i + batchSize);
-        
-        try {
-          const txs = await connection.getParsedTransactions(batch, { 
-            maxSupportedTransactionVersion: 0 
-          });
-          
-          txs.forEach((tx) => {
-            if (!tx) return;
-            const info = parseTransaction(tx, address);
-            if (info) parsedTxs.push(info);
-          });
-        } catch (batchErr) {
-          console.warn(`Failed to parse batch for ${address}`, batchErr);
-          // Don't fail the whole request if one batch fails, just continue
+      txs.forEach((tx) => {
+        if (!tx) return;
+        const info = parseTransaction(tx, address);
+        if (info) parsedTxs.push(info);
+      });
+    } catch (batchErr) {
+      if (signal?.aborted) throw batchErr;
+      console.warn(`Failed to parse batch for ${address}`, batchErr);
+      // Don't fail the whole request if one batch fails, just continue
+      missing += batch.length;
+    }
+
+    // Increased delay to 500ms to be nicer to public RPCs
+    await sleep(500);
+  }
+
+  return { transactions: parsedTxs, missing };
+};
+
+export const fetchTransactionHistory = async (
+  endpoints: string[],
+  address: string,
+  options: HistoryOptions = DEFAULT_HISTORY_OPTIONS,
+  signal?: AbortSignal
+): Promise<TransactionHistory> => {
+  try {
+    const pubKey = new PublicKey(address);
+    const target = effectiveLimit(options);
+
+    // 1. Page through signatures (newest first) with the `before` cursor.
+    // Stop conditions: target reached, fromTime passed, `until` reached, or history exhausted.
+    const sigStrings: string[] = [];
+    let before = options.beforeSignature;
+    let complete = false;
+
+    while (sigStrings.length < target) {
+      const pageSize = Math.min(SIGNATURE_PAGE_SIZE, target - sigStrings.length);
+      const page = await executeWithFallback(endpoints, connection =>
+        connection.getSignaturesForAddress(pubKey, { limit: pageSize, before, until: options.untilSignature }), signal
+      );
+
+      let passedFromTime = false;
+      for (const sig of page) {
+        const blockTime = sig.blockTime || 0;
+        if (options.fromTime !== undefined && blockTime && blockTime < options.fromTime) {
+          passedFromTime = true;
+          break;
         }
+        if (options.toTime !== undefined && blockTime > options.toTime) continue;
+        sigStrings.push(sig.signature);
+      }
 
-        // Increased delay to 500ms to be nicer to public RPCs
-        await sleep(500);
+      if (passedFromTime || page.length < pageSize) {
+        complete = true;
+        break;
       }
+      before = page[page.length - 1].signature;
+      await sleep(250);
+    }
 
-      return parsedTxs;
-    });
+    // 2. Fetch & parse the transactions
+    const { transactions, missing } = await fetchParsedTransactions(endpoints, address, sigStrings, signal);
+
+    return {
+      transactions,
+      coverage: buildCoverage(transactions, sigStrings.length, complete, missing)
+    };
 
   } catch (error) {
+    if (signal?.aborted) throw error;
     console.error(`Final error fetching for ${address}:`, error);
-    // Return empty array instead of crashing, so analysis can proceed with whatever was found (if any)
-    return [];
+    // Return empty history instead of crashing, so analysis can proceed with whatever was found (if any)
+    return { transactions: [], coverage: buildCoverage([], 0, false) };
   }
 };
 
+// Walks signatures back to the wallet's first transaction and parses the oldest `count` of them (oldest first)
+export const fetchEarliestTransactions = async (
+  endpoints: string[],
+  address: string,
+  count: number = FUNDING_TX_COUNT,
+  signal?: AbortSignal
+): Promise<TransactionHistory> => {
+  try {
+    const pubKey = new PublicKey(address);
+    let tail: string[] = [];
+    let before: string | undefined;
+    let listed = 0;
+    let reachedFirst = false;
+
+    for (let page = 0; page < FUNDING_MAX_SIGNATURE_PAGES; page++) {
+      const sigs = await executeWithFallback(endpoints, connection =>
+        connection.getSignaturesForAddress(pubKey, { limit: SIGNATURE_PAGE_SIZE, before }), signal
+      );
+      listed += sigs.length;
+      tail = [...tail, ...sigs.map(s => s.signature)].slice(-count);
+
+      if (sigs.length < SIGNATURE_PAGE_SIZE) {
+        reachedFirst = true;
+        break;
+      }
+      before = sigs[sigs.length - 1].signature;
+      await sleep(250);
+    }
+
+    const { transactions, missing } = await fetchParsedTransactions(endpoints, address, tail, signal);
+    transactions.sort((a, b) => a.blockTime - b.blockTime);
+    return { transactions, coverage: buildCoverage(transactions, listed, reachedFirst, missing) };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error(`Failed to locate earliest transactions for ${address}:`, error);
+    return { transactions: [], coverage: buildCoverage([], 0, false) };
+  }
+};
+
+// Balance changes below this (in SOL) are rent / dust and don't count as transfers
+const MIN_SOL_DELTA = 0.000001;
+
+/**
+ * Value movements in a transaction:
+ * 1. System and SPL-token transfer instructions (top-level and inner/CPI), token accounts resolved to owners.
+ * 2. Pre/post balance deltas of the monitored wallet that no instruction explains (e.g. AMM swaps),
+ *    attributed to the account whose balance moved the opposite way.
+ */
+const extractTransfers = (tx: ParsedTransactionWithMeta, monitoredAddress: string): TransferRecord[] => {
+  const meta = tx.meta!;
+  const accountKeys = tx.transaction.message.accountKeys.map(k => k.pubkey.toBase58());
+  const transfers: TransferRecord[] = [];
+
+  // Token account -> owner / mint / decimals
+  const tokenAccounts = new Map<string, { owner: string; mint: string; decimals: number }>();
+  // owner|mint -> ui amount delta
+  const tokenDeltas = new Map<string, number>();
+  [...(meta.preTokenBalances || []).map(b => ({ b, sign: -1 })), ...(meta.postTokenBalances || []).map(b => ({ b, sign: 1 }))]
+    .forEach(({ b, sign }) => {
+      const account = accountKeys[b.accountIndex];
+      const owner = b.owner || account;
+      tokenAccounts.set(account, { owner, mint: b.mint, decimals: b.uiTokenAmount.decimals });
+      const key = `${owner}|${b.mint}`;
+      tokenDeltas.set(key, (tokenDeltas.get(key) || 0) + sign * (b.uiTokenAmount.uiAmount || 0));
+    });
+
+  // 1. Transfer instructions
+  const instructions = [
+    ...tx.transaction.message.instructions,
+    ...(meta.innerInstructions || []).flatMap(inner => inner.instructions)
+  ];
+  instructions.forEach(ix => {
+    if (!('parsed' in ix) || typeof ix.parsed !== 'object') return;
+    const { type, info } = ix.parsed;
+    if (!info) return;
+
+    if (ix.program === 'system' && (type === 'transfer' || type === 'transferWithSeed')) {
+      transfers.push(toTransfer(info.source, info.destination, NATIVE_MINT, info.lamports / LAMPORTS_PER_SOL, monitoredAddress));
+    } else if ((ix.program === 'spl-token' || ix.program === 'spl-token-2022') && (type === 'transfer' || type === 'transferChecked')) {
+      const source = tokenAccounts.get(info.source);
+      const destination = tokenAccounts.get(info.destination);
+      const mint = info.mint || source?.mint || destination?.mint || 'unknown';
+      const decimals = source?.decimals ?? destination?.decimals ?? 0;
+      const amount = info.tokenAmount?.uiAmount ?? Number(info.amount) / 10 ** decimals;
+      transfers.push(toTransfer(
+        source?.owner || info.authority || info.source,
+        destination?.owner || info.destination,
+        mint,
+        amount,
+        monitoredAddress
+      ));
+    }
+  });
+
+  const explained = (mint: string) =>
+    transfers.some(t => t.mint === mint && (t.from === monitoredAddress || t.to === monitoredAddress));
+
+  // Pairs the monitored wallet's delta with the counterparty whose delta moved the opposite way
+  const addFromDelta = (mint: string, deltas: Map<string, number>) => {
+    const own = deltas.get(monitoredAddress) || 0;
+    if (own === 0 || explained(mint)) return;
+    let counterparty: string | null = null;
+    let best = 0;
+    deltas.forEach((delta, addr) => {
+      if (addr === monitoredAddress || Math.sign(delta) === Math.sign(own)) return;
+      if (Math.abs(delta) > best) { best = Math.abs(delta); counterparty = addr; }
+    });
+    if (!counterparty) return;
+    const amount = Math.min(Math.abs(own), best);
+    transfers.push(own > 0
+      ? toTransfer(counterparty, monitoredAddress, mint, amount, monitoredAddress)
+      : toTransfer(monitoredAddress, counterparty, mint, amount, monitoredAddress));
+  };
+
+  // 2a. SOL deltas (the fee payer's fee is not a transfer)
+  const solDeltas = new Map<string, number>();
+  accountKeys.forEach((key, i) => {
+    let delta = (meta.postBalances[i] - meta.preBalances[i]) / LAMPORTS_PER_SOL;
+    if (i === 0) delta += meta.fee / LAMPORTS_PER_SOL;
+    if (Math.abs(delta) >= MIN_SOL_DELTA) solDeltas.set(key, delta);
+  });
+  addFromDelta(NATIVE_MINT, solDeltas);
+
+  // 2b. Token deltas, per mint
+  const mints = new Set(Array.from(tokenDeltas.keys()).map(k => k.split('|')[1]));
+  mints.forEach(mint => {
+    const deltas = new Map<string, number>();
+    tokenDeltas.forEach((delta, key) => {
+      const [owner, m] = key.split('|');
+      if (m === mint && delta !== 0) deltas.set(owner, delta);
+    });
+    addFromDelta(mint, deltas);
+  });
+
+  return transfers.filter(t => t.amount > 0 && t.from !== t.to);
+};
+
+// Token accounts owned by the monitored wallet. NFTs have 0 decimals and a balance of at most one.
+const extractAssets = (tx: ParsedTransactionWithMeta, monitoredAddress: string): AssetTouch[] => {
+  const held = new Map<string, { decimals: number; max: number }>();
+  [...(tx.meta!.preTokenBalances || []), ...(tx.meta!.postTokenBalances || [])].forEach(b => {
+    if (b.owner !== monitoredAddress) return;
+    const prev = held.get(b.mint);
+    const amount = b.uiTokenAmount.uiAmount || 0;
+    held.set(b.mint, { decimals: b.uiTokenAmount.decimals, max: Math.max(prev?.max || 0, amount) });
+  });
+  return Array.from(held.entries()).map(([mint, { decimals, max }]) => ({ mint, isNft: decimals === 0 && max <= 1 }));
+};
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+// Instruction data of unparsed instructions comes back base58-encoded
+const decodeBase58 = (text: string): Uint8Array => {
+  const bytes: number[] = []; // Little-endian while accumulating
+  for (const char of text) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry < 0) throw new Error(`Invalid base58 character "${char}"`);
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  for (const char of text) {
+    if (char !== '1') break;
+    bytes.push(0); // Leading '1's are leading zero bytes
+  }
+  return new Uint8Array(bytes.reverse());
+};
+
+/**
+ * Build details: top-level program order, Compute Budget settings (SetComputeUnitLimit = 2 with a u32,
+ * SetComputeUnitPrice = 3 with a u64) and the format tells different SDKs leave behind.
+ */
+const extractBehavior = (tx: ParsedTransactionWithMeta): TxBehavior => {
+  const { message } = tx.transaction;
+  const behavior: TxBehavior = { instructions: message.instructions.map(ix => ix.programId.toBase58()), format: '' };
+  const budgetOrder: string[] = [];
+
+  message.instructions.forEach(ix => {
+    if (ix.programId.toBase58() !== COMPUTE_BUDGET_PROGRAM_ID || !('data' in ix)) return;
+    try {
+      const data = decodeBase58(ix.data);
+      const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+      if (data[0] === 2 && data.length >= 5) {
+        behavior.computeUnitLimit = view.getUint32(1, true);
+        budgetOrder.push('limit');
+      } else if (data[0] === 3 && data.length >= 9) {
+        behavior.priorityFee = Number(view.getBigUint64(1, true));
+        budgetOrder.push('price');
+      }
+    } catch (e) {
+      // Malformed data: leave the settings unknown
+    }
+  });
+
+  behavior.format = [
+    tx.version === undefined || tx.version === 'legacy' ? 'legacy' : `v${tx.version}`,
+    message.addressTableLookups?.length ? 'lookup tables' : null,
+    budgetOrder.length > 0 ? budgetOrder.join('→') : null,
+  ].filter(Boolean).join(' · ');
+
+  return behavior;
+};
+
 const parseTransaction = (tx: ParsedTransactionWithMeta, monitoredAddress: string): ParsedTxInfo | null => {
   if (!tx.transaction || !tx.meta) return null;
 
@@ -101,9 +365,12 @@ const parseTransaction = (tx: ParsedTransactionWithMeta, monitoredAddress: strin
   const signature = tx.transaction.signatures[0];
   const blockTime = tx.blockTime || 0;
 
-  // Identify sender (Signer is usually index 0)
+  // The fee payer is always account 0; any other account may sign too. The monitored wallet counts
+  // as the sender whenever it signed, even if someone else paid the fee.
   const accountKeys = message.accountKeys;
-  const sender = accountKeys[0].pubkey.toBase58();
+  const feePayer = accountKeys[0].pubkey.toBase58();
+  const signers = accountKeys.filter(k => k.signer).map(k => k.pubkey.toBase58());
+  const sender = signers.includes(monitoredAddress) ? monitoredAddress : feePayer;
 
   const programIds: string[] = [];
   const recipients: string[] = [];
@@ -153,10 +420,85 @@ const parseTransaction = (tx: ParsedTransactionWithMeta, monitoredAddress: strin
   const uniquePrograms = [...new Set(programIds)];
 
   return {
+    chain: ChainId.SOLANA,
     signature,
     blockTime,
     sender,
     recipients: uniqueRecipients,
-    programIds: uniquePrograms
+    programIds: uniquePrograms,
+    transfers: extractTransfers(tx, monitoredAddress),
+    fee: tx.meta.fee / LAMPORTS_PER_SOL,
+    assets: extractAssets(tx, monitoredAddress),
+    behavior: extractBehavior(tx),
+    signers,
+    feePayer
   };
 };
+
+// getMultipleAccountsInfo accepts at most 100 accounts per call
+const METADATA_BATCH_SIZE = 100;
+
+/**
+ * Reads the verified collection from a Metaplex metadata account (Borsh layout):
+ * key, update authority, mint, name, symbol, uri, seller fee, creators?, primary sale,
+ * mutable, edition nonce?, token standard?, collection? { verified, key }.
+ * Older accounts end before the optional tail, in which case there is no collection.
+ */
+const parseMetadataCollection = (data: Uint8Array): string | null => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let offset = 1 + 32 + 32;
+  const skipString = () => { offset += 4 + view.getUint32(offset, true); };
+  const readOption = () => offset < data.length && data[offset++] === 1;
+
+  try {
+    skipString(); skipString(); skipString();
+    offset += 2;
+    if (readOption()) offset += 4 + view.getUint32(offset, true) * 34;
+    offset += 2;
+    if (readOption()) offset += 1;
+    if (readOption()) offset += 1;
+    if (!readOption() || offset + 33 > data.length) return null;
+    const verified = data[offset] === 1;
+    return verified ? new PublicKey(data.slice(offset + 1, offset + 33)).toBase58() : null;
+  } catch (e) {
+    return null; // Truncated or unexpected layout
+  }
+};
+
+// NFT mint -> verified collection address, via the mints' metadata PDAs
+export const fetchNftCollections = async (endpoints: string[], mints: string[], signal?: AbortSignal): Promise<{ [mint: string]: string }> => {
+  const programId = new PublicKey(TOKEN_METADATA_PROGRAM_ID);
+  const seed = new TextEncoder().encode('metadata');
+  const collections: { [mint: string]: string } = {};
+
+  for (let i = 0; i < mints.length; i += METADATA_BATCH_SIZE) {
+    const batch = mints.slice(i, i + METADATA_BATCH_SIZE);
+    const pdas = batch.map(mint =>
+      PublicKey.findProgramAddressSync([seed, programId.toBytes(), new PublicKey(mint).toBytes()], programId)[0]
+    );
+    try {
+      const accounts = await executeWithFallback(endpoints, connection => connection.getMultipleAccountsInfo(pdas), signal);
+      accounts.forEach((account, idx) => {
+        const collection = account ? parseMetadataCollection(account.data) : null;
+        if (collection) collections[batch[idx]] = collection;
+      });
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      console.warn('Failed to resolve NFT collections', err);
+    }
+  }
+
+  return collections;
+};
+
+export const createSolanaAdapter = (endpoints: string[], signal?: AbortSignal): ChainAdapter => ({
+  id: ChainId.SOLANA,
+  name: 'Solana Mainnet',
+  addressLabel: 'Solana',
+  validateAddress,
+  normalizeAddress: (address) => address.trim(),
+  explorerTxUrl: (signature) => `https://solscan.io/tx/${signature}`,
+  fetchTransactionHistory: (address, options) => fetchTransactionHistory(endpoints, address, options, signal),
+  fetchEarliestTransactions: (address, count) => fetchEarliestTransactions(endpoints, address, count, signal),
+  resolveCollections: (mints) => fetchNftCollections(endpoints, mints, signal),
+});
@@ -0,0 +1,109 @@
+import {
+  ACTIVATION_WINDOW_SECONDS,
+  DORMANCY_GAP_SECONDS,
+  TEMPORAL_BASELINE_SIMILARITY,
+  TEMPORAL_MIN_STRENGTH,
+  TEMPORAL_MIN_TX
+} from '../constants';
+import { ActivePeriod, ParsedTxInfo, TemporalCorrelation, TemporalProfile } from '../types';
+
+type Histories = { [address: string]: ParsedTxInfo[] };
+
+const cosineSimilarity = (a: number[], b: number[]) => {
+  let dot = 0, normA = 0, normB = 0;
+  a.forEach((v, i) => {
+    dot += v * b[i];
+    normA += v * v;
+    normB += b[i] * b[i];
+  });
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// Rescales a similarity so the baseline maps to 0 and a perfect match to 1
+const aboveBaseline = (similarity: number) =>
+  Math.max(0, (similarity - TEMPORAL_BASELINE_SIMILARITY) / (1 - TEMPORAL_BASELINE_SIMILARITY));
+
+// Splits a history into runs of activity separated by gaps longer than DORMANCY_GAP_SECONDS
+export const findActivePeriods = (txs: ParsedTxInfo[]): ActivePeriod[] => {
+  const timed = txs.filter(tx => tx.blockTime).sort((a, b) => a.blockTime - b.blockTime);
+  const periods: ActivePeriod[] = [];
+  timed.forEach(tx => {
+    const last = periods[periods.length - 1];
+    if (last && tx.blockTime - last.end <= DORMANCY_GAP_SECONDS) {
+      last.end = tx.blockTime;
+      last.txCount++;
+    } else {
+      periods.push({ start: tx.blockTime, end: tx.blockTime, txCount: 1, firstSignature: tx.signature });
+    }
+  });
+  return periods;
+};
+
+// UTC hour-of-day and day-of-week histograms plus active periods
+export const buildTemporalProfile = (txs: ParsedTxInfo[]): TemporalProfile => {
+  const hourOfDay = new Array(24).fill(0);
+  const dayOfWeek = new Array(7).fill(0);
+  txs.forEach(tx => {
+    if (!tx.blockTime) return;
+    const date = new Date(tx.blockTime * 1000);
+    hourOfDay[date.getUTCHours()]++;
+    dayOfWeek[date.getUTCDay()]++;
+  });
+  return { hourOfDay, dayOfWeek, activePeriods: findActivePeriods(txs) };
+};
+
+// Activations (period starts) of `a` with a start of `b` within ACTIVATION_WINDOW_SECONDS, each `b` used once
+const matchActivations = (a: ActivePeriod[], b: ActivePeriod[]) => {
+  const used = new Set<ActivePeriod>();
+  const matches: { a: ActivePeriod; b: ActivePeriod }[] = [];
+  a.forEach(pa => {
+    const match = b.find(pb => !used.has(pb) && Math.abs(pa.start - pb.start) <= ACTIVATION_WINDOW_SECONDS);
+    if (!match) return;
+    used.add(match);
+    matches.push({ a: pa, b: match });
+  });
+  return matches;
+};
+
+/**
+ * Compares every pair of inputs with at least TEMPORAL_MIN_TX transactions.
+ * strength = 0.5 * hour-of-day + 0.2 * day-of-week (both above the shared-time-zone baseline)
+ *          + 0.3 * fraction of activations that coincide.
+ * A wallet's first activation is its creation, so only later wake-ups from dormancy are compared
+ * when both wallets have them; otherwise creation alone would match every batch of fresh wallets.
+ */
+export const findTemporalCorrelations = (inputs: Histories): TemporalCorrelation[] => {
+  const profiles = Object.entries(inputs)
+    .filter(([, txs]) => txs.filter(tx => tx.blockTime).length >= TEMPORAL_MIN_TX)
+    .map(([address, txs]) => ({ address, profile: buildTemporalProfile(txs) }));
+
+  const correlations: TemporalCorrelation[] = [];
+  for (let i = 0; i < profiles.length; i++) {
+    for (let j = i + 1; j < profiles.length; j++) {
+      const a = profiles[i];
+      const b = profiles[j];
+      const hourSimilarity = cosineSimilarity(a.profile.hourOfDay, b.profile.hourOfDay);
+      const daySimilarity = cosineSimilarity(a.profile.dayOfWeek, b.profile.dayOfWeek);
+
+      const periodsA = a.profile.activePeriods;
+      const periodsB = b.profile.activePeriods;
+      const wakeUps = periodsA.length > 1 && periodsB.length > 1;
+      const sharedActivations = wakeUps ? matchActivations(periodsA.slice(1), periodsB.slice(1)) : [];
+      const activationOverlap = wakeUps ? sharedActivations.length / Math.min(periodsA.length - 1, periodsB.length - 1) : 0;
+
+      const strength = 0.5 * aboveBaseline(hourSimilarity) + 0.2 * aboveBaseline(daySimilarity) + 0.3 * activationOverlap;
+      if (strength < TEMPORAL_MIN_STRENGTH) continue;
+      correlations.push({
+        addressA: a.address,
+        addressB: b.address,
+        hourSimilarity,
+        daySimilarity,
+        sharedActivations,
+        activationOverlap,
+        strength
+      });
+    }
+  }
+
+  return correlations.sort((a, b) => b.strength - a.strength);
+};
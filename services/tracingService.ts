@@ -0,0 +1,141 @@
+import { IGNORED_PROGRAMS, INTERMEDIARY_TX_LIMIT, MAX_PATHS_PER_PAIR } from '../constants';
+import { AnalysisConfig, ChainAdapter, FlowHop, FlowPath, ParsedTxInfo } from '../types';
+import { fetchHistoryWithCache } from './cacheService';
+
+type Histories = { [address: string]: ParsedTxInfo[] };
+
+export const DEFAULT_TRACE_DEPTH = 1;
+export const DEFAULT_TRACE_BUDGET = 10;
+
+// Directed sender -> recipient edges from every history we have, deduplicated by signature
+const buildFlowEdges = (histories: Histories[]): Map<string, FlowHop[]> => {
+  const edges = new Map<string, FlowHop[]>();
+  const seen = new Set<string>();
+
+  histories.forEach(group => {
+    Object.values(group).forEach(txs => {
+      txs.forEach(tx => {
+        if (seen.has(tx.signature)) return;
+        seen.add(tx.signature);
+        tx.recipients.forEach(to => {
+          if (to === tx.sender) return;
+          if (!edges.has(tx.sender)) edges.set(tx.sender, []);
+          edges.get(tx.sender)!.push({ from: tx.sender, to, signature: tx.signature, blockTime: tx.blockTime });
+        });
+      });
+    });
+  });
+
+  return edges;
+};
+
+/**
+ * Ranks non-input counterparties worth expanding: those that received funds from an input,
+ * preferring ones touching several inputs. `exclude` holds addresses already fetched.
+ */
+const rankCandidates = (
+  histories: Histories,
+  inputSet: Set<string>,
+  exclude: Set<string>
+): string[] => {
+  const touchedBy = new Map<string, Set<string>>();
+
+  Object.entries(histories).forEach(([owner, txs]) => {
+    txs.forEach(tx => {
+      if (tx.sender !== owner) return; // Only follow outbound flows
+      tx.recipients.forEach(r => {
+        if (inputSet.has(r) || exclude.has(r) || IGNORED_PROGRAMS.includes(r) || tx.programIds.includes(r)) return;
+        if (!touchedBy.has(r)) touchedBy.set(r, new Set());
+        touchedBy.get(r)!.add(owner);
+      });
+    });
+  });
+
+  return Array.from(touchedBy.entries())
+    .sort((a, b) => b[1].size - a[1].size)
+    .map(([addr]) => addr);
+};
+
+/**
+ * Fetches the histories of likely intermediaries, breadth-first from the inputs.
+ * Level 1 expands counterparties the inputs paid; each further level expands whoever those paid.
+ */
+export const expandIntermediaries = async (
+  adapter: ChainAdapter,
+  inputs: Histories,
+  config: AnalysisConfig,
+  onProgress?: (address: string, fetched: number, budget: number) => void
+): Promise<Histories> => {
+  const depth = config.traceDepth ?? DEFAULT_TRACE_DEPTH;
+  const budget = config.traceBudget ?? DEFAULT_TRACE_BUDGET;
+  const inputSet = new Set(Object.keys(inputs));
+  const expanded: Histories = {};
+  const fetched = new Set<string>();
+
+  let frontier: Histories = inputs;
+  for (let level = 0; level < depth && fetched.size < budget; level++) {
+    const candidates = rankCandidates(frontier, inputSet, fetched);
+    const next: Histories = {};
+
+    for (const candidate of candidates) {
+      if (fetched.size >= budget) break;
+      fetched.add(candidate);
+      onProgress?.(candidate, fetched.size, budget);
+
+      const history = await fetchHistoryWithCache(adapter, candidate, {
+        limit: INTERMEDIARY_TX_LIMIT,
+        fromTime: config.fromTime,
+        toTime: config.toTime,
+      });
+      expanded[candidate] = history.transactions;
+      next[candidate] = history.transactions;
+    }
+
+    frontier = next;
+  }
+
+  return expanded;
+};
+
+/**
+ * Finds directed, time-ordered paths input A -> M1 [-> M2 ...] -> input B through
+ * at most `maxIntermediaries` non-input hops. Each hop carries the tx that moved the funds.
+ */
+export const traceMultiHopFlows = (
+  inputs: Histories,
+  intermediaries: Histories,
+  maxIntermediaries: number = DEFAULT_TRACE_DEPTH
+): FlowPath[] => {
+  const inputSet = new Set(Object.keys(inputs));
+  const edges = buildFlowEdges([inputs, intermediaries]);
+  const paths: FlowPath[] = [];
+  const pathsPerPair = new Map<string, number>();
+
+  const walk = (source: string, current: string, hops: FlowHop[], visited: Set<string>) => {
+    (edges.get(current) || []).forEach(hop => {
+      if (visited.has(hop.to)) return;
+      // Funds can't leave M before they arrived
+      if (hops.length > 0 && hop.blockTime < hops[hops.length - 1].blockTime) return;
+
+      if (inputSet.has(hop.to)) {
+        if (hops.length === 0) return; // Direct transfers are handled elsewhere
+        const pairKey = `${source}->${hop.to}`;
+        const count = pathsPerPair.get(pairKey) || 0;
+        if (count >= MAX_PATHS_PER_PAIR) return;
+        pathsPerPair.set(pairKey, count + 1);
+        paths.push({ source, target: hop.to, hops: [...hops, hop] });
+        return;
+      }
+
+      if (hops.length >= maxIntermediaries || IGNORED_PROGRAMS.includes(hop.to)) return;
+      visited.add(hop.to);
+      walk(source, hop.to, [...hops, hop], visited);
+      visited.delete(hop.to);
+    });
+  };
+
+  inputSet.forEach(source => walk(source, source, [], new Set([source])));
+
+  // Shortest paths first
+  return paths.sort((a, b) => a.hops.length - b.hops.length);
+};
@@ -3,25 +3,75 @@ export interface WalletInput {
   address: string;
 }
 
+export enum ChainId {
+  SOLANA = 'SOLANA',
+  ETHEREUM = 'ETHEREUM',
+  BASE = 'BASE',
+  BITCOIN = 'BITCOIN',
+}
+
 export enum ConnectionType {
   DIRECT = 'DIRECT',
   SHARED_COUNTERPARTY = 'SHARED_COUNTERPARTY',
   SHARED_PROGRAM = 'SHARED_PROGRAM',
   MIDDLEMAN = 'MIDDLEMAN',
   TIME_PROXIMATE = 'TIME_PROXIMATE',
+  CO_SIGN = 'CO_SIGN', // Signed one tx together, or one paid the other's fees (account chains)
+  CO_SPEND = 'CO_SPEND', // UTXO common-input-ownership
+  AMOUNT_MATCH = 'AMOUNT_MATCH', // B received what A sent (minus a fee) shortly after
+  PEEL_CHAIN = 'PEEL_CHAIN', // Funds forwarded hop by hop with small amounts peeled off
+  MULTI_HOP = 'MULTI_HOP', // Confirmed A -> M -> B flow through expanded intermediaries
+  COMMON_FUNDER = 'COMMON_FUNDER', // Funded by the same wallet, or by each other
+  SHARED_ASSET = 'SHARED_ASSET', // Hold / trade the same rare token, or NFTs from one collection
+  TEMPORAL_FINGERPRINT = 'TEMPORAL_FINGERPRINT', // Same hours / weekdays of activity, waking from dormancy together
+  BEHAVIOR_FINGERPRINT = 'BEHAVIOR_FINGERPRINT', // Same fees, compute limits and instruction patterns (one bot / SDK)
+}
+
+// Known-entity categories from the label registry
+export enum EntityCategory {
+  EXCHANGE = 'EXCHANGE',
+  BRIDGE = 'BRIDGE',
+  DEX = 'DEX',
+  MIXER = 'MIXER',
+  SCAM = 'SCAM',
+}
+
+// What a labelled entity does to the evidence passing through it
+export type LabelPolicy = 'ignore' | 'downweight' | 'highlight';
+
+export interface EntityLabel {
+  address: string;
+  name: string; // e.g. "Binance Hot Wallet 14"
+  category: EntityCategory;
+  chain?: ChainId; // Unset = applies on any chain
+}
+
+export interface LabelRegistry {
+  labels: { [address: string]: EntityLabel };
+  policies: Record<EntityCategory, LabelPolicy>;
 }
 
 export interface AnalysisConfig {
   maxTransactions: number;
   timeWindowSeconds: number; // For time-proximate analysis
   includePrograms: boolean;
+  fromTime?: number; // Unix seconds; ignore transactions before this block time
+  toTime?: number; // Unix seconds; ignore transactions after this block time
+  fullHistory?: boolean; // Crawl until the start of history (or fromTime), capped at FULL_HISTORY_MAX_TX
+  traceIntermediaries?: boolean; // Fetch intermediary histories to confirm multi-hop flows
+  traceDepth?: number; // Max intermediaries between two inputs (1 = A -> M -> B)
+  traceBudget?: number; // Max intermediary histories fetched per investigation
+  analyzeFunding?: boolean; // Walk back to each input's first deposit to find its funder
 }
 
 export interface Node {
   id: string;
-  group: 'input' | 'counterparty' | 'program' | 'middleman';
+  group: 'input' | 'counterparty' | 'program' | 'middleman' | 'change' | 'funder' | 'asset';
   label: string;
   val: number; // Size/weight
+  entity?: EntityLabel; // Set when the address is in the label registry
+  cluster?: number; // EntityCluster.id, for inputs assigned to a probable owner
+  highlighted?: boolean; // Its category's policy is "highlight"
 }
 
 export interface Link {
@@ -29,7 +79,8 @@ export interface Link {
   target: string;
   type: ConnectionType;
   details?: string;
-  value: number; // Thickness/Strength
+  value: number; // Strength (used by the layout)
+  volume?: number; // Native coin moved between the two ends; drives link thickness
 }
 
 export interface GraphData {
@@ -37,23 +88,359 @@ export interface GraphData {
   links: Link[];
 }
 
+// What the graph view shows of the analysed graph; applied without re-running the analysis
+export interface GraphFilter {
+  hiddenTypes: ConnectionType[];
+  minLinkValue: number; // Links weaker than this (Link.value) are hidden
+  showPrograms: boolean;
+  focusPair: [string, string] | null; // Only the inputs and whatever lies between them
+}
+
+// One piece of evidence linking two wallets, before weighting
+export interface PairEvidence {
+  type: ConnectionType;
+  reason: string;
+  strength: number; // 0-1 heuristic-specific certainty (e.g. asset rarity, label down-weighting)
+  signatures: string[]; // Transactions the evidence rests on (empty for derived evidence, e.g. cluster membership)
+  timestamps: number[]; // Block times of `signatures`, same order
+  counterparty?: string; // Wallet / asset in between: shared counterparty, hub, funder, first intermediary, token
+  timeDelta?: number; // Seconds between the two wallets' actions
+}
+
+// How one piece of evidence contributed: probability = weight * strength * decay
+export interface ScoreItem extends PairEvidence {
+  weight: number; // The profile's weight for this evidence type
+  decay: number; // Diminishing-returns factor for the n-th item of the same type
+  probability: number;
+}
+
+export interface ScoreBreakdown {
+  items: ScoreItem[]; // The pair's full evidence ledger, strongest first
+  probability: number; // 1 - prod(1 - item.probability)
+}
+
+// User-editable scoring model
+export interface ScoringProfile {
+  name: string;
+  weights: Record<ConnectionType, number>; // 0-1: likelihood that one such piece of evidence means common control
+  diminishingFactor: number; // 0-1: each further item of the same type counts this much less
+}
+
+export interface ConnectedPair {
+  addressA: string;
+  addressB: string;
+  reason: string; // Of the strongest item
+  score: number; // 0-100, from the breakdown's probability
+  type: ConnectionType; // Of the strongest item
+  breakdown: ScoreBreakdown;
+}
+
 export interface AnalysisSummary {
-  connectedPairs: {
-    addressA: string;
-    addressB: string;
-    reason: string;
-    score: number;
-    type: ConnectionType;
-  }[];
+  chain: ChainId | null; // Of the analysed transactions; null when none were found
+  connectedPairs: ConnectedPair[];
   totalTransactionsScanned: number;
   uniqueCounterparties: number;
-  confidenceScore: number; // 0-100 overall score
+  confidenceScore: number; // 0-100 overall score, aggregated from the pair scores
+  scoringProfile: string; // Name of the profile the scores were computed with
+  coverage: { [address: string]: WalletCoverage };
+  flowPaths: FlowPath[];
+  fundingSources: { [address: string]: FundingSource };
+  sharedAssets: SharedAsset[];
+  flaggedEntities: FlaggedEntity[];
+  entityClusters: EntityCluster[];
+  temporalCorrelations: TemporalCorrelation[];
+  behaviorSimilarities: BehaviorSimilarity[];
+  coSignedTxs: CoSignedTx[];
+  feeSponsors: FeeSponsor[];
+}
+
+// Everything fetched for one investigation: enough to re-run the analysis without the network
+export interface FetchedHistories {
+  txData: { [address: string]: ParsedTxInfo[] };
+  coverage: { [address: string]: WalletCoverage };
+  intermediaries: { [address: string]: ParsedTxInfo[] };
+  fundingSources: { [address: string]: FundingSource };
+  collections: { [mint: string]: string };
+}
+
+export interface InvestigationMeta {
+  id: string;
+  name: string;
+  chain: ChainId;
+  addresses: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A saved case: inputs, settings, fetched data, results and the analyst's notes
+export interface Investigation extends InvestigationMeta {
+  config: AnalysisConfig;
+  fetched: FetchedHistories;
+  timeRange: TimeRange | null;
+  graph: GraphData;
+  summary: AnalysisSummary;
+  aiInsight: string | null;
+  notes: string;
+}
+
+// Portable single-file form of an Investigation
+export interface InvestigationBundle {
+  format: 'nexustracker-investigation';
+  version: number;
+  exportedAt: number;
+  investigation: Investigation;
+}
+
+// A transaction two or more inputs signed together, or where one input paid another's fee
+export interface CoSignedTx {
+  signature: string;
+  blockTime: number;
+  feePayer: string;
+  signers: string[];
+  inputs: string[]; // Inputs among the signers and fee payer
 }
 
+// A wallet outside the inputs that paid transaction fees for two or more of them
+export interface FeeSponsor {
+  sponsor: string;
+  inputs: string[];
+  signatures: string[];
+}
+
+export type BehaviorFeature = 'programs' | 'instructionOrder' | 'priorityFee' | 'computeLimit' | 'txFormat';
+
+// One behavioral feature compared between two wallets
+export interface BehaviorMatch {
+  feature: BehaviorFeature;
+  similarity: number; // Cosine similarity of the two wallets' value counts, 0-1
+  shared?: string; // The most common value both use
+}
+
+export interface BehaviorSimilarity {
+  addressA: string;
+  addressB: string;
+  matches: BehaviorMatch[]; // Features both wallets have data for, largest contribution first
+  examples: { signature: string; blockTime: number }[]; // A tx from each wallet showing the strongest match
+  strength: number; // 0-1 weighted sum
+}
+
+// A stretch of activity with no gap longer than DORMANCY_GAP_SECONDS
+export interface ActivePeriod {
+  start: number;
+  end: number;
+  txCount: number;
+  firstSignature: string;
+}
+
+export interface TemporalProfile {
+  hourOfDay: number[]; // 24 UTC buckets
+  dayOfWeek: number[]; // 7 buckets, Sunday first
+  activePeriods: ActivePeriod[];
+}
+
+// How alike two inputs' activity patterns are
+export interface TemporalCorrelation {
+  addressA: string;
+  addressB: string;
+  hourSimilarity: number; // Cosine similarity, 0-1
+  daySimilarity: number;
+  sharedActivations: { a: ActivePeriod; b: ActivePeriod }[]; // Both woke up from dormancy within ACTIVATION_WINDOW_SECONDS
+  activationOverlap: number; // Shared activations / the fewer activations of the two
+  strength: number; // 0-1 combined
+}
+
+// Unix-second window the timeline brush narrows the analysis to
+export interface TimeRange {
+  from: number;
+  to: number;
+}
+
+// Input wallets judged to belong to one owner
+export interface EntityCluster {
+  id: number; // 1-based, largest cluster first
+  members: string[];
+  confidence: number; // 0-100: score of the weakest link in the strongest chain tying the members together
+  weakestLink: { addressA: string; addressB: string; score: number };
+}
+
+// A highlighted (e.g. mixer / scam) entity that an input interacted with
+export interface FlaggedEntity {
+  label: EntityLabel;
+  inputs: string[];
+}
+
+// A token, NFT or collection touched by two or more inputs
+export interface SharedAsset {
+  asset: string; // Mint, token contract or collection address
+  kind: 'token' | 'nft' | 'collection';
+  inputs: string[];
+  firstSeen: { [input: string]: { signature: string; blockTime: number } }; // Earliest tx per input touching it
+  counterparties: number; // Non-input wallets seen moving it
+  rarity: number; // 0-1: share of all wallets seen with the asset that are inputs
+}
+
+// The first inbound transfer found for an input wallet
+export interface FundingSource {
+  funder: string;
+  signature: string;
+  blockTime: number;
+  isFirstDeposit: boolean; // False when the wallet's very first transaction couldn't be reached
+}
+
+export interface FlowHop {
+  from: string;
+  to: string;
+  signature: string;
+  blockTime: number;
+}
+
+// A directed, time-ordered money path from one input to another
+export interface FlowPath {
+  source: string;
+  target: string;
+  hops: FlowHop[];
+}
+
+// What part of a wallet's history was actually fetched
+export interface WalletCoverage {
+  fetched: number; // Parsed transactions handed to the analysis
+  signaturesFound: number; // Signatures / hashes listed before parsing
+  oldestBlockTime: number | null;
+  newestBlockTime: number | null;
+  complete: boolean; // True when the whole requested range was fetched (not cut off by the tx cap)
+  fromCache?: number; // How many of the fetched transactions were served by the local cache
+  missing?: number; // Listed transactions whose fetch failed, leaving gaps in the history
+}
+
+// A single value movement inside a transaction
+export interface TransferRecord {
+  from: string;
+  to: string;
+  mint: string; // NATIVE_MINT or the token mint / contract address
+  amount: number; // Display units (SOL, BTC, ETH, SPL ui amount, ERC-20 scaled by its decimals)
+  direction: 'in' | 'out' | 'self' | 'external'; // Relative to the monitored wallet
+}
+
+// A token or NFT the monitored wallet held or moved in a transaction
+export interface AssetTouch {
+  mint: string; // SPL mint or token contract address
+  isNft: boolean;
+  collection?: string; // Known at parse time on EVM (the ERC-721 contract); resolved later on Solana
+}
+
+// Chain-neutral view of a transaction. On EVM chains `signature` is the tx hash
+// and `programIds` holds the contracts called or emitting logs.
 export interface ParsedTxInfo {
+  chain: ChainId;
   signature: string;
   blockTime: number;
   sender: string;
   recipients: string[];
   programIds: string[];
-}
\ No newline at end of file
+  transfers?: TransferRecord[]; // Missing on transactions cached before amounts were recorded
+  fee?: number; // Native units
+  assets?: AssetTouch[]; // Missing on transactions cached before mints were recorded
+  behavior?: TxBehavior; // Missing on transactions cached before build details were recorded
+  // Account chains: everyone who signed, and who paid the fee. Missing on transactions cached before they were recorded.
+  signers?: string[];
+  feePayer?: string;
+  // UTXO chains only: every address spending an input, and the output judged to be change
+  inputAddresses?: string[];
+  changeAddress?: string;
+}
+
+// How a transaction was built. Bots and tx-building libraries leave the same traces on every tx.
+export interface TxBehavior {
+  instructions: string[]; // Top-level program ids in order (EVM: contract:method selector)
+  computeUnitLimit?: number; // Solana SetComputeUnitLimit / EVM gas limit
+  priorityFee?: number; // Solana micro-lamports per CU / EVM max priority fee in gwei
+  format: string; // Tx version and builder tells, e.g. "v0 · lookup tables · price→limit"
+}
+
+export interface HistoryOptions {
+  limit: number;
+  fromTime?: number;
+  toTime?: number;
+  fullHistory?: boolean;
+  untilSignature?: string; // Stop paging once this (already known) signature is reached
+  beforeSignature?: string; // Start paging just after (older than) this signature
+}
+
+export interface TransactionHistory {
+  transactions: ParsedTxInfo[];
+  coverage: WalletCoverage;
+}
+
+// Every chain backend exposes the same surface so the UI and analysis stay chain-agnostic
+export interface ChainAdapter {
+  id: ChainId;
+  name: string; // Display name, e.g. "Solana Mainnet"
+  addressLabel: string; // Used in placeholders / validation messages
+  validateAddress: (address: string) => boolean;
+  normalizeAddress: (address: string) => string;
+  explorerTxUrl: (signature: string) => string; // Block-explorer page for a transaction
+  fetchTransactionHistory: (address: string, options?: HistoryOptions) => Promise<TransactionHistory>;
+  // Oldest transactions first; coverage.complete means the wallet's first tx was reached
+  fetchEarliestTransactions?: (address: string, count?: number) => Promise<TransactionHistory>;
+  // NFT mint -> verified collection, for chains where the collection isn't in the transaction itself
+  resolveCollections?: (mints: string[]) => Promise<{ [mint: string]: string }>;
+}
+
+// Extra inputs to analyzeConnections beyond the inputs' own histories
+export interface AnalysisContext {
+  coverage?: { [address: string]: WalletCoverage };
+  intermediaries?: { [address: string]: ParsedTxInfo[] };
+  fundingSources?: { [address: string]: FundingSource };
+  collections?: { [mint: string]: string }; // NFT mint -> collection, from adapter.resolveCollections
+  labels?: LabelRegistry;
+  scoring?: ScoringProfile;
+}
+export interface AnalysisResult {
+  graph: GraphData;
+  summary: AnalysisSummary;
+}
+
+// One analysis run as sent to the analysis worker
+export interface AnalysisJob {
+  chain: ChainId;
+  addresses: string[];
+  config: AnalysisConfig;
+  fetchKey: string; // Identifies the fetched data; the worker only refetches when it changes
+  fetched?: FetchedHistories; // Data the worker doesn't hold yet, e.g. from a reopened investigation
+  labels: LabelRegistry; // Already narrowed to the chain
+  scoring: ScoringProfile;
+  timeRange: TimeRange | null;
+}
+
+// Main thread -> analysis worker
+export type AnalysisWorkerRequest =
+  | ({ type: 'analyze'; jobId: number } & AnalysisJob)
+  | { type: 'forget' }; // Drop the held histories (e.g. after the cache was purged)
+
+// Analysis worker -> main thread. `partial` results cover the wallets fetched so far.
+export type AnalysisWorkerResponse =
+  | { type: 'status'; jobId: number; message: string }
+  | { type: 'partial'; jobId: number; result: AnalysisResult; fetchedWallets: number; totalWallets: number }
+  | { type: 'done'; jobId: number; result: AnalysisResult; fetched?: FetchedHistories } // `fetched` only when newly fetched
+  | { type: 'error'; jobId: number; message: string };
+
+// Local HTTP API (server.ts): a submitted analysis as reported to clients
+export type ApiJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface ApiJobInfo {
+  id: string;
+  chain: ChainId;
+  addresses: string[];
+  config: AnalysisConfig;
+  status: ApiJobStatus;
+  position?: number; // 1-based place in the queue while queued
+  progress: {
+    message: string;
+    fetchedWallets: number;
+    totalWallets: number;
+  };
+  createdAt: string; // ISO timestamps
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string; // When failed
+}
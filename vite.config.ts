@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.EVM_RPC_URL': JSON.stringify(env.EVM_RPC_URL),
+        'process.env.ESPLORA_API_URL': JSON.stringify(env.ESPLORA_API_URL)
       },
       resolve: {
         alias: {
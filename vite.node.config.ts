@@ -0,0 +1,15 @@
+import { defineConfig } from 'vite';
+
+// Node builds of the command-line analyzer and the local HTTP API. Unlike the app build,
+// process.env is read at run time, and dependencies load from node_modules rather than being bundled.
+export default defineConfig({
+  build: {
+    ssr: true,
+    outDir: 'dist/node',
+    target: 'node20',
+    rollupOptions: {
+      input: { nexus: 'cli.ts', 'nexus-server': 'server.ts' },
+      output: { entryFileNames: '[name].js' },
+    },
+  },
+});